@@ -1,12 +1,19 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   experimental: {
+    // canvas와 sharp는 네이티브 모듈이므로 번들링하지 않음
+    serverComponentsExternalPackages: ["canvas", "sharp"],
     outputFileTracingIncludes: {
       "/api/convert-emoji/**/*": [
         "scripts/**",
         "public/fonts/**",
         "node_modules/**",
       ],
+      "/api/convert-emoji-png/**/*": ["public/fonts/**", "public/emoji/**"],
+      "/api/convert-emoji-raster/**/*": ["public/fonts/**", "public/emoji/**"],
+      "/api/convert-emoji-vector/**/*": ["public/fonts/**", "public/emoji/**"],
+      "/api/convert-batch/**/*": ["public/fonts/**", "public/emoji/**"],
+      "/api/fidelity/**/*": ["public/fonts/**", "public/emoji/**"],
     },
   },
   env: {
@@ -0,0 +1,300 @@
+// Figma에서 내보낸 SVG 파일들의 이모지를 한 번에 변환하는 CLI
+// 웹 페이지와 같은 변환 코드(src/lib)를 사용하며, 실패한 파일이 있으면 0이 아닌 코드로 종료한다
+//
+// 사용법: npm run convert -- "designs/**/*.svg" --out dist/svg --type vector --style twemoji
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import fg from "fast-glob";
+import { convertSvgBatch } from "@/lib/batch-convert";
+import {
+  EMOJI_CONVERSION_TYPES,
+  type EmojiConversionType,
+} from "@/lib/converter";
+import { parseEmojiStyleList } from "@/lib/emoji-fallback";
+import {
+  DEFAULT_RASTER_FORMAT,
+  DEFAULT_RASTER_STRUCTURE,
+  isRasterFormat,
+  isRasterQuality,
+  isRasterStructure,
+  RASTER_FORMATS,
+  RASTER_STRUCTURES,
+  type RasterFormat,
+  type RasterStructure,
+} from "@/lib/raster-format";
+import {
+  DEFAULT_PNG_RESOLUTION,
+  parsePngResolution,
+  PNG_DENSITIES,
+} from "@/lib/raster-resolution";
+import {
+  DEFAULT_EMOJI_STYLE,
+  EMOJI_STYLES,
+  isEmojiStyle,
+  type EmojiStyle,
+} from "@/lib/emoji-styles";
+import { DEFAULT_ID_PREFIX, isIdPrefix } from "@/lib/svg-ids";
+
+const USAGE = `Usage: npm run convert -- <glob...> --out <dir> [options]
+
+Options:
+  -o, --out <dir>       Output directory (required)
+  -t, --type <type>     Conversion type: ${EMOJI_CONVERSION_TYPES.join(" | ")} (default: png)
+  -s, --size <size>     PNG raster height: pixels, a density of the displayed size
+                        (${PNG_DENSITIES.join(" | ")}) or auto (default: ${DEFAULT_PNG_RESOLUTION})
+      --format <format> Image format for png: ${RASTER_FORMATS.join(" | ")} (default: ${DEFAULT_RASTER_FORMAT})
+      --quality <1-100> WebP/AVIF quality (default: 80 for webp, 50 for avif)
+      --structure <s>   SVG structure for png: ${RASTER_STRUCTURES.join(" | ")} (default: ${DEFAULT_RASTER_STRUCTURE})
+      --style <style>   Emoji style: ${EMOJI_STYLES.join(" | ")} (default: ${DEFAULT_EMOJI_STYLE})
+      --fallback <list> Comma-separated styles to try when --style cannot render an emoji
+                        ("" to disable; default: EMOJI_FALLBACK_STYLES or all other styles)
+      --shared-font     With foreignObject, write one font subset shared by all files
+      --id-prefix <p>   Prefix of the IDs in generated SVG markup (default: ${DEFAULT_ID_PREFIX})
+      --rewrite-ids     Rewrite every ID of each output SVG from a hash of its content
+      --report <file>   Write a JSON summary report to <file>
+  -h, --help            Show this help`;
+
+// 바이트 크기를 읽기 쉬운 단위로 표시
+const formatBytes = (bytes: number): string =>
+  bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+
+// 사용법 오류 출력 후 종료
+const fail = (message: string): never => {
+  console.error(`Error: ${message}\n\n${USAGE}`);
+  process.exit(1);
+};
+
+const parseOptions = () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: "string", short: "o" },
+      type: { type: "string", short: "t", default: "png" },
+      size: {
+        type: "string",
+        short: "s",
+        default: String(DEFAULT_PNG_RESOLUTION),
+      },
+      format: { type: "string", default: DEFAULT_RASTER_FORMAT },
+      quality: { type: "string" },
+      structure: { type: "string", default: DEFAULT_RASTER_STRUCTURE },
+      style: { type: "string", default: DEFAULT_EMOJI_STYLE },
+      fallback: { type: "string" },
+      "shared-font": { type: "boolean", default: false },
+      "id-prefix": { type: "string", default: DEFAULT_ID_PREFIX },
+      "rewrite-ids": { type: "boolean", default: false },
+      report: { type: "string" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+  if (positionals.length === 0) {
+    fail("At least one input glob is required");
+  }
+  if (!values.out) {
+    fail("--out is required");
+  }
+  if (!EMOJI_CONVERSION_TYPES.includes(values.type as EmojiConversionType)) {
+    fail(`Unsupported conversion type: ${values.type}`);
+  }
+  if (!isEmojiStyle(values.style)) {
+    fail(`Unsupported emoji style: ${values.style}`);
+  }
+  const fallbackStyles =
+    values.fallback === undefined
+      ? undefined
+      : parseEmojiStyleList(values.fallback);
+  if (fallbackStyles === null) {
+    fail(`Unsupported fallback emoji styles: ${values.fallback}`);
+  }
+  if (!isRasterFormat(values.format)) {
+    fail(`Unsupported format: ${values.format}`);
+  }
+  const quality =
+    values.quality === undefined ? undefined : Number(values.quality);
+  if (quality !== undefined && !isRasterQuality(quality)) {
+    fail(`Invalid quality: ${values.quality}`);
+  }
+  if (!isRasterStructure(values.structure)) {
+    fail(`Unsupported structure: ${values.structure}`);
+  }
+  if (!isIdPrefix(values["id-prefix"])) {
+    fail(`Invalid ID prefix: ${values["id-prefix"]}`);
+  }
+  const size = parsePngResolution(values.size);
+  if (size === null) {
+    fail(`Invalid size: ${values.size}`);
+  }
+
+  return {
+    patterns: positionals,
+    outDir: path.resolve(values.out!),
+    type: values.type as EmojiConversionType,
+    style: values.style as EmojiStyle,
+    size: size!,
+    format: values.format as RasterFormat,
+    quality,
+    structure: values.structure as RasterStructure,
+    fallbackStyles: fallbackStyles ?? undefined,
+    sharedFont: values["shared-font"],
+    idPrefix: values["id-prefix"] as string,
+    rewriteIds: values["rewrite-ids"],
+    report: values.report,
+  };
+};
+
+// glob에서 와일드카드가 나오기 전까지의 디렉토리 (예: designs/**/*.svg → designs)
+// 와일드카드가 없는 파일 경로는 그 파일이 있는 디렉토리
+const getGlobBase = (pattern: string): string => {
+  const segments = pattern.split("/");
+  const dynamicIndex = segments.findIndex(
+    (segment) => segment !== "" && fg.isDynamicPattern(segment)
+  );
+  const base = segments
+    .slice(0, dynamicIndex === -1 ? -1 : dynamicIndex)
+    .join("/");
+  return base || (pattern.startsWith("/") ? "/" : ".");
+};
+
+// glob에 맞는 파일과 glob 기준 디렉토리에서의 상대 경로 (!로 시작하는 패턴은 제외할 파일)
+const findInputFiles = async (
+  patterns: string[]
+): Promise<{ file: string; output: string }[]> => {
+  const ignore = patterns
+    .filter((pattern) => pattern.startsWith("!"))
+    .map((pattern) => pattern.slice(1));
+  const found = new Map<string, string>();
+  for (const pattern of patterns.filter((p) => !p.startsWith("!"))) {
+    const base = path.resolve(getGlobBase(pattern));
+    const files = await fg(pattern, {
+      absolute: true,
+      onlyFiles: true,
+      ignore,
+    });
+    for (const file of files) {
+      if (!found.has(file)) {
+        found.set(file, path.relative(base, file).split(path.sep).join("/"));
+      }
+    }
+  }
+  return Array.from(found, ([file, output]) => ({ file, output })).sort(
+    (a, b) => (a.file < b.file ? -1 : a.file > b.file ? 1 : 0)
+  );
+};
+
+async function main() {
+  const options = parseOptions();
+  const files = await findInputFiles(options.patterns);
+
+  if (files.length === 0) {
+    fail(`No files matched: ${options.patterns.join(" ")}`);
+  }
+
+  // 결과 파일은 출력 디렉토리에 glob 기준 디렉토리에서의 폴더 구조 그대로 저장
+  const { manifest, svgFiles, fontFiles } = await convertSvgBatch(
+    files.map(({ file, output }) => ({
+      input: path.relative(process.cwd(), file),
+      output,
+      content: fs.readFileSync(file, "utf8"),
+    })),
+    {
+      type: options.type,
+      style: options.style,
+      resolution: options.size,
+      format: options.format,
+      quality: options.quality,
+      structure: options.structure,
+      idPrefix: options.idPrefix,
+      rewriteIds: options.rewriteIds,
+      sharedFont: options.sharedFont,
+      fallbackStyles: options.fallbackStyles,
+      onFileConverted: (result) => {
+        if (result.error) {
+          console.error(`✗ ${result.input}: ${result.error}`);
+        } else {
+          console.log(`✓ ${result.input} (${formatBytes(result.bytes!)})`);
+          if (result.rejected) {
+            console.warn(`  Removed: ${result.rejected.join(", ")}`);
+          }
+        }
+      },
+    }
+  );
+
+  const writeOutput = (filePath: string, data: string | Buffer) => {
+    const outputPath = path.join(options.outDir, filePath);
+    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+    fs.writeFileSync(outputPath, data);
+  };
+  fs.mkdirSync(options.outDir, { recursive: true });
+  for (const svgFile of svgFiles) {
+    writeOutput(svgFile.path, svgFile.content);
+  }
+  // 폰트 파일은 SVG가 상대 경로로 참조하므로 참조하는 SVG와 같은 폴더에 저장
+  const fontData = new Map(fontFiles.map((font) => [font.fileName, font.data]));
+  for (const result of manifest.files) {
+    if (!result.output) {
+      continue;
+    }
+    for (const fileName of result.fontFiles || []) {
+      const data = fontData.get(fileName);
+      if (data) {
+        writeOutput(
+          path.posix.join(path.posix.dirname(result.output), fileName),
+          Buffer.from(data, "base64")
+        );
+      }
+    }
+  }
+
+  // 요약 보고
+  const failed = manifest.files.filter((result) => result.error);
+  console.log(
+    `\nConverted ${manifest.converted} of ${manifest.total} files ` +
+      `(type: ${options.type}, style: ${options.style}) into ${path.relative(
+        process.cwd(),
+        options.outDir
+      )}`
+  );
+  // 대체 소스에서 가져온 이모지
+  const fallbackEmoji = new Map<string, string>();
+  for (const result of manifest.files) {
+    Object.entries(result.emojiSources ?? {}).forEach(([emoji, style]) => {
+      if (style !== options.style) {
+        fallbackEmoji.set(emoji, style);
+      }
+    });
+  }
+  if (fallbackEmoji.size > 0) {
+    console.log(
+      `Served by fallback styles: ${Array.from(fallbackEmoji)
+        .map(([emoji, style]) => `${emoji} (${style})`)
+        .join(", ")}`
+    );
+  }
+  for (const warning of manifest.warnings ?? []) {
+    console.warn(`Warning: ${warning}`);
+  }
+  if (failed.length > 0) {
+    console.log(`Failed (${failed.length}):`);
+    for (const result of failed) {
+      console.log(`  ${result.input}: ${result.error}`);
+    }
+  }
+
+  if (options.report) {
+    fs.writeFileSync(options.report, JSON.stringify(manifest, null, 2));
+  }
+
+  process.exit(failed.length > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error("Conversion failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,138 @@
+import JSZip from "jszip";
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { convertSvgBatch } from "@/lib/batch-convert";
+import { POST } from "./route";
+
+// 변환은 하지 않고 업로드 처리만 확인 (batch-convert는 node-canvas를 불러옴)
+vi.mock("@/lib/batch-convert", () => ({ convertSvgBatch: vi.fn() }));
+
+const SVG = '<svg xmlns="http://www.w3.org/2000/svg"/>';
+
+const createZip = async (files: Record<string, string | Buffer>) => {
+  const zip = new JSZip();
+  for (const [name, content] of Object.entries(files)) {
+    zip.file(name, content);
+  }
+  return new File(
+    [
+      new Uint8Array(
+        await zip.generateAsync({ type: "uint8array", compression: "DEFLATE" })
+      ),
+    ],
+    "designs.zip",
+    { type: "application/zip" }
+  );
+};
+
+// 압축하면 작지만 풀면 추출 제한(100MB)을 넘는 ZIP
+let bombData: Uint8Array | undefined;
+const createBombData = async () => {
+  if (!bombData) {
+    const zip = new JSZip();
+    zip.file("bomb.svg", Buffer.alloc(101 * 1024 * 1024, " "));
+    bombData = await zip.generateAsync({
+      type: "uint8array",
+      compression: "DEFLATE",
+    });
+  }
+  return bombData.slice();
+};
+
+// 로컬 헤더와 중앙 디렉터리에 적힌 압축 해제 크기를 작게 조작
+const understateSizes = (data: Uint8Array) => {
+  const view = new DataView(data.buffer);
+  for (let i = 0; i + 4 <= data.length; i++) {
+    const signature = view.getUint32(i, true);
+    if (signature === 0x04034b50) {
+      view.setUint32(i + 22, 1000, true);
+    } else if (signature === 0x02014b50) {
+      view.setUint32(i + 24, 1000, true);
+    }
+  }
+  return data;
+};
+
+const toZipFile = (data: Uint8Array) =>
+  new File([new Uint8Array(data)], "designs.zip", {
+    type: "application/zip",
+  });
+
+const post = (files: File[]) => {
+  const body = new FormData();
+  files.forEach((file) => body.append("files", file));
+  return POST(
+    new NextRequest("http://localhost/api/convert-batch", {
+      method: "POST",
+      body,
+    })
+  );
+};
+
+describe("POST /api/convert-batch", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.mocked(convertSvgBatch).mockReset();
+    vi.restoreAllMocks();
+  });
+
+  it("rejects archives with too many SVG files before extracting them", async () => {
+    const files = Object.fromEntries(
+      Array.from({ length: 501 }, (_, i) => [`icons/${i}.svg`, SVG])
+    );
+
+    const response = await post([await createZip(files)]);
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toMatchObject({
+      code: "payload-too-large",
+      field: "files",
+      error: "Too many SVG files (501). The limit is 500 per batch",
+    });
+    expect(convertSvgBatch).not.toHaveBeenCalled();
+  });
+
+  it("rejects archives that expand beyond the extraction limit", async () => {
+    const bomb = toZipFile(await createBombData());
+    expect(bomb.size).toBeLessThan(1024 * 1024);
+
+    const response = await post([bomb]);
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toMatchObject({
+      code: "payload-too-large",
+      field: "files",
+    });
+    expect(convertSvgBatch).not.toHaveBeenCalled();
+  });
+
+  it("stops extracting when an archive understates its size", async () => {
+    const response = await post([
+      toZipFile(understateSizes(await createBombData())),
+    ]);
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toMatchObject({
+      code: "payload-too-large",
+      error:
+        "SVG files must be at most 104857600 bytes in total after extraction",
+    });
+    expect(convertSvgBatch).not.toHaveBeenCalled();
+  });
+
+  it("rejects uploads with a declared size over the limit", async () => {
+    const response = await POST(
+      new NextRequest("http://localhost/api/convert-batch", {
+        method: "POST",
+        headers: { "content-length": String(51 * 1024 * 1024) },
+        body: "",
+      })
+    );
+
+    expect(response.status).toBe(413);
+    expect(convertSvgBatch).not.toHaveBeenCalled();
+  });
+});
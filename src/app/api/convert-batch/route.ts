@@ -0,0 +1,360 @@
+import { NextRequest, NextResponse } from "next/server";
+import path from "path";
+import JSZip from "jszip";
+import {
+  apiError,
+  ApiRequestError,
+  toApiErrorResponse,
+} from "@/lib/api-request";
+import {
+  convertSvgBatch,
+  type BatchConversion,
+  type BatchInputFile,
+} from "@/lib/batch-convert";
+import {
+  EMOJI_CONVERSION_TYPES,
+  type EmojiConversionType,
+} from "@/lib/converter";
+import { parseEmojiStyleList } from "@/lib/emoji-fallback";
+import { DEFAULT_EMOJI_STYLE, isEmojiStyle } from "@/lib/emoji-styles";
+import {
+  DEFAULT_RASTER_FORMAT,
+  DEFAULT_RASTER_STRUCTURE,
+  isRasterFormat,
+  isRasterQuality,
+  isRasterStructure,
+  RASTER_FORMATS,
+  RASTER_STRUCTURES,
+} from "@/lib/raster-format";
+import {
+  DEFAULT_PNG_RESOLUTION,
+  parsePngResolution,
+} from "@/lib/raster-resolution";
+import { DEFAULT_ID_PREFIX, isIdPrefix } from "@/lib/svg-ids";
+
+// 한 번에 변환할 수 있는 최대 SVG 파일 수
+const MAX_BATCH_FILES = 500;
+
+// 업로드 본문과 꺼낸 SVG 전체의 최대 크기 (압축률이 매우 높은 ZIP으로 메모리를 채우지 못하도록)
+const MAX_BATCH_UPLOAD_BYTES = 50 * 1024 * 1024;
+const MAX_BATCH_EXTRACTED_BYTES = 100 * 1024 * 1024;
+
+// 결과 ZIP 안의 매니페스트 파일 이름
+const MANIFEST_FILE_NAME = "manifest.json";
+
+const isSvgFileName = (fileName: string) =>
+  fileName.toLowerCase().endsWith(".svg");
+
+const isZipFile = (file: File) =>
+  file.type === "application/zip" ||
+  file.type === "application/x-zip-compressed" ||
+  file.name.toLowerCase().endsWith(".zip");
+
+const tooManyFiles = (count: number) =>
+  new ApiRequestError(
+    "payload-too-large",
+    `Too many SVG files (${count}). The limit is ${MAX_BATCH_FILES} per batch`,
+    "files"
+  );
+
+const tooLarge = () =>
+  new ApiRequestError(
+    "payload-too-large",
+    `SVG files must be at most ${MAX_BATCH_EXTRACTED_BYTES} bytes in total after extraction`,
+    "files"
+  );
+
+// ZIP 항목 헤더에 적힌 압축 해제 크기 (JSZip의 비공개 필드, 알 수 없으면 0)
+const getDeclaredSize = (entry: JSZip.JSZipObject): number =>
+  (entry as unknown as { _data?: { uncompressedSize?: number } })._data
+    ?.uncompressedSize || 0;
+
+// ZIP 항목을 maxBytes까지만 풀어 읽기
+// 헤더의 크기는 조작할 수 있으므로 실제로 풀리는 크기를 세다가 넘으면 중단한다
+const readZipEntry = (
+  entry: JSZip.JSZipObject,
+  maxBytes: number
+): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = entry.nodeStream("nodebuffer");
+    stream
+      .on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBytes) {
+          stream.pause();
+          stream.removeAllListeners("data");
+          reject(tooLarge());
+          return;
+        }
+        chunks.push(chunk);
+      })
+      .on("error", reject)
+      .on("end", () => resolve(Buffer.concat(chunks)));
+  });
+
+// 업로드된 파일에서 변환할 SVG 목록 만들기
+// ZIP 파일은 안의 SVG를 폴더 구조 그대로 꺼낸다
+// 무엇이든 풀기 전에 파일 수와 헤더에 적힌 크기를 먼저 확인하고, 푸는 동안에도 전체 크기를 제한한다
+const collectInputFiles = async (
+  uploads: File[]
+): Promise<BatchInputFile[]> => {
+  const uploadBytes = uploads.reduce((total, upload) => total + upload.size, 0);
+  if (uploadBytes > MAX_BATCH_UPLOAD_BYTES) {
+    throw new ApiRequestError(
+      "payload-too-large",
+      `Upload must be at most ${MAX_BATCH_UPLOAD_BYTES} bytes`,
+      "files"
+    );
+  }
+
+  // 업로드 순서대로 SVG 파일과 ZIP 안의 SVG 항목
+  const sources: { upload: File; entries?: JSZip.JSZipObject[] }[] = [];
+  let count = 0;
+  let declaredBytes = 0;
+  for (const upload of uploads) {
+    if (isZipFile(upload)) {
+      const archive = await JSZip.loadAsync(await upload.arrayBuffer());
+      const entries = Object.values(archive.files).filter(
+        (entry) =>
+          !entry.dir &&
+          isSvgFileName(entry.name) &&
+          !entry.name.startsWith("__MACOSX/")
+      );
+      sources.push({ upload, entries });
+      count += entries.length;
+      declaredBytes += entries.reduce(
+        (total, entry) => total + getDeclaredSize(entry),
+        0
+      );
+    } else if (isSvgFileName(upload.name)) {
+      sources.push({ upload });
+      count++;
+      declaredBytes += upload.size;
+    }
+    if (count > MAX_BATCH_FILES) {
+      throw tooManyFiles(count);
+    }
+    if (declaredBytes > MAX_BATCH_EXTRACTED_BYTES) {
+      throw tooLarge();
+    }
+  }
+
+  const files: BatchInputFile[] = [];
+  let extractedBytes = 0;
+  for (const { upload, entries } of sources) {
+    if (!entries) {
+      extractedBytes += upload.size;
+      files.push({
+        input: upload.name,
+        output: path.posix.basename(upload.name),
+        content: await upload.text(),
+      });
+      continue;
+    }
+    for (const entry of entries) {
+      const data = await readZipEntry(
+        entry,
+        MAX_BATCH_EXTRACTED_BYTES - extractedBytes
+      );
+      extractedBytes += data.length;
+      files.push({
+        input: `${upload.name}/${entry.name}`,
+        // 결과 ZIP 밖을 가리키는 경로(../, /)는 잘라냄
+        output: path.posix.normalize(entry.name).replace(/^(\.\.\/|\/)+/, ""),
+        content: data.toString("utf8"),
+      });
+    }
+  }
+
+  return files;
+};
+
+// 변환 결과를 ZIP으로 묶기
+// 폰트 파일은 SVG가 상대 경로로 참조하므로 참조하는 SVG와 같은 폴더에 넣는다
+const createResultZip = ({
+  manifest,
+  svgFiles,
+  fontFiles,
+}: BatchConversion): JSZip => {
+  const zip = new JSZip();
+  const fontData = new Map(fontFiles.map((font) => [font.fileName, font.data]));
+
+  for (const svgFile of svgFiles) {
+    zip.file(svgFile.path, svgFile.content);
+  }
+
+  for (const result of manifest.files) {
+    if (!result.output) {
+      continue;
+    }
+    const directory = path.posix.dirname(result.output);
+    for (const fileName of result.fontFiles || []) {
+      const data = fontData.get(fileName);
+      if (data) {
+        zip.file(path.posix.join(directory, fileName), data, { base64: true });
+      }
+    }
+  }
+
+  zip.file(MANIFEST_FILE_NAME, JSON.stringify(manifest, null, 2));
+  return zip;
+};
+
+// ZIP을 만들면서 바로 응답으로 내보내는 스트림
+const createZipStream = (zip: JSZip): ReadableStream<Uint8Array> =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      zip
+        .generateInternalStream({
+          type: "uint8array",
+          compression: "DEFLATE",
+          streamFiles: true,
+        })
+        .on("data", (chunk) => controller.enqueue(chunk))
+        .on("error", (error) => controller.error(error))
+        .on("end", () => controller.close())
+        .resume();
+    },
+  });
+
+export async function POST(request: NextRequest) {
+  // 본문을 읽기 전에 선언된 크기로 먼저 거부
+  if (Number(request.headers.get("content-length")) > MAX_BATCH_UPLOAD_BYTES) {
+    return apiError(
+      "payload-too-large",
+      `Upload must be at most ${MAX_BATCH_UPLOAD_BYTES} bytes`,
+      { field: "files" }
+    );
+  }
+
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch (error) {
+    console.error("Error reading batch upload:", error);
+    return apiError("invalid-body", "Expected a multipart/form-data upload");
+  }
+
+  try {
+    const type = String(formData.get("type") || "png");
+    const style = String(formData.get("style") || DEFAULT_EMOJI_STYLE);
+    const size = parsePngResolution(
+      formData.get("size") || DEFAULT_PNG_RESOLUTION
+    );
+    const format = String(formData.get("format") || DEFAULT_RASTER_FORMAT);
+    const quality = formData.get("quality");
+    const structure = String(
+      formData.get("structure") || DEFAULT_RASTER_STRUCTURE
+    );
+    const sharedFont = formData.get("sharedFont") === "true";
+    const idPrefix = String(formData.get("idPrefix") || DEFAULT_ID_PREFIX);
+    const rewriteIds = formData.get("rewriteIds") === "true";
+    // 대체 스타일 순서 (쉼표로 구분, 빈 값이면 대체하지 않음, 없으면 서버 기본값)
+    const fallback = formData.get("fallback");
+    const fallbackStyles =
+      fallback === null ? undefined : parseEmojiStyleList(String(fallback));
+
+    if (!EMOJI_CONVERSION_TYPES.includes(type as EmojiConversionType)) {
+      return apiError("invalid-field", `Unsupported conversion type: ${type}`, {
+        field: "type",
+      });
+    }
+    if (!isEmojiStyle(style)) {
+      return apiError("invalid-field", `Unsupported emoji style: ${style}`, {
+        field: "style",
+      });
+    }
+    if (size === null) {
+      return apiError(
+        "invalid-field",
+        `Invalid size: ${formData.get("size")}`,
+        { field: "size" }
+      );
+    }
+    if (fallbackStyles === null) {
+      return apiError(
+        "invalid-field",
+        `Unsupported fallback emoji styles: ${fallback}`,
+        { field: "fallback" }
+      );
+    }
+    if (!isRasterFormat(format)) {
+      return apiError(
+        "invalid-field",
+        `Unsupported format: ${format} (expected ${RASTER_FORMATS.join(", ")})`,
+        { field: "format" }
+      );
+    }
+    if (quality !== null && !isRasterQuality(Number(quality))) {
+      return apiError(
+        "invalid-field",
+        `Invalid quality: ${quality} (expected 1 to 100)`,
+        { field: "quality" }
+      );
+    }
+
+    if (!isRasterStructure(structure)) {
+      return apiError(
+        "invalid-field",
+        `Unsupported structure: ${structure} (expected ${RASTER_STRUCTURES.join(
+          ", "
+        )})`,
+        { field: "structure" }
+      );
+    }
+
+    if (!isIdPrefix(idPrefix)) {
+      return apiError("invalid-field", `Invalid idPrefix: ${idPrefix}`, {
+        field: "idPrefix",
+      });
+    }
+
+    const uploads = formData
+      .getAll("files")
+      .filter((value): value is File => typeof value !== "string");
+    const files = await collectInputFiles(uploads);
+    console.log(
+      `Received ${files.length} SVG files for batch conversion (type: ${type}, style: ${style})`
+    );
+
+    if (files.length === 0) {
+      return apiError("missing-field", "No SVG files found in the upload", {
+        field: "files",
+      });
+    }
+
+    const startTime = Date.now();
+    const conversion = await convertSvgBatch(files, {
+      type: type as EmojiConversionType,
+      style,
+      resolution: size,
+      format,
+      quality: quality === null ? undefined : Number(quality),
+      structure,
+      idPrefix,
+      rewriteIds,
+      sharedFont,
+      fallbackStyles,
+    });
+    const { manifest } = conversion;
+    console.log(
+      `Batch converted ${manifest.converted} of ${manifest.total} files in ${
+        Date.now() - startTime
+      }ms`
+    );
+
+    return new NextResponse(createZipStream(createResultZip(conversion)), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": 'attachment; filename="converted-svgs.zip"',
+        "X-Batch-Converted": String(manifest.converted),
+        "X-Batch-Failed": String(manifest.failed),
+      },
+    });
+  } catch (error) {
+    console.error("Error processing batch:", error);
+    return toApiErrorResponse(error, "Failed to process batch");
+  }
+}
@@ -0,0 +1,149 @@
+import { NextRequest } from "next/server";
+import {
+  MAX_SVG_DIMENSION,
+  type ConvertEmojiRasterDebugInfo,
+  type ConvertEmojiRasterResponse,
+} from "@/lib/api-contract";
+import {
+  apiError,
+  apiResponse,
+  parseConvertEmojiRasterRequest,
+  readJsonBody,
+  toApiErrorResponse,
+  toConversionErrorResponse,
+} from "@/lib/api-request";
+import { getEmojiDebugInfo } from "@/lib/converter";
+import { rasterStrategy } from "@/lib/converter/raster-strategy";
+import { renderEmoji, type RenderedEmoji } from "@/lib/converter/strategy";
+import { createSvgWithRaster } from "@/lib/emoji-output";
+import type { EmojiSourceRecord } from "@/lib/emoji-fallback";
+import { encodeClientPng } from "@/lib/emoji-raster";
+import { RASTER_FORMAT_INFO } from "@/lib/raster-format";
+
+export async function POST(request: NextRequest) {
+  try {
+    // 요청 형식과 크기 제한은 src/lib/api-contract.ts 참고
+    const {
+      emoji,
+      pngBase64: clientPngBase64,
+      width,
+      height,
+      resolution: pngResolution,
+      displayScale,
+      format,
+      quality,
+      structure,
+      idPrefix,
+      style,
+      fallbackStyles,
+    } = parseConvertEmojiRasterRequest(await readJsonBody(request));
+    console.log("Received emoji for raster conversion:", emoji);
+    console.log(
+      `SVG dimensions: ${width}x${height}, resolution: ${pngResolution}, display scale: ${displayScale}, format: ${format}`
+    );
+
+    // 수신한 이모지의 코드포인트 정보 로깅
+    const emojiInfo = getEmojiDebugInfo(emoji);
+    console.log("Received emoji details:", emojiInfo);
+
+    const debugInfo: ConvertEmojiRasterDebugInfo = {
+      emojiDetails: emojiInfo,
+      style,
+      resolution: pngResolution,
+      displayScale,
+      format,
+      quality: quality ?? RASTER_FORMAT_INFO[format].defaultQuality,
+      structure,
+    };
+
+    // PNG 데이터가 함께 오지 않으면 서버에서 선택한 스타일로 렌더링
+    // 선택한 스타일이 그리지 못하는 이모지는 대체 스타일 순서대로 시도
+    let svgContent: string;
+    let imageBytes: number;
+    let source: EmojiSourceRecord | undefined;
+    if (!clientPngBase64) {
+      let rendered: RenderedEmoji;
+      try {
+        const startTime = Date.now();
+        rendered = await renderEmoji(
+          rasterStrategy,
+          emoji,
+          { width, height, displayScale },
+          {
+            style,
+            fallbackStyles,
+            resolution: pngResolution,
+            format,
+            quality,
+            structure,
+            idPrefix,
+          }
+        );
+        debugInfo.processingTimeMs = Date.now() - startTime;
+      } catch (error) {
+        console.error("Error rendering emoji raster:", error);
+        return toConversionErrorResponse(error, debugInfo);
+      }
+
+      const { details } = rendered;
+      source = rendered.sourceRecord;
+      debugInfo.sourceStyle = source.style;
+      debugInfo.renderedOnServer = true;
+      debugInfo.rasterWidth = details.rasterWidth;
+      debugInfo.rasterHeight = details.rasterHeight;
+      debugInfo.assetFormat = details.assetFormat;
+      debugInfo.cacheHit = details.cacheHit;
+      debugInfo.imageBase64Length = details.base64Length;
+      svgContent = rendered.svgContent;
+      imageBytes = details.imageBytes!;
+    } else {
+      // 클라이언트가 보낸 PNG는 요청한 형식으로 다시 인코딩
+      debugInfo.renderedOnServer = false;
+      const image = await encodeClientPng(
+        Buffer.from(clientPngBase64, "base64"),
+        format,
+        quality
+      );
+      if (!image) {
+        return apiError(
+          "invalid-field",
+          `pngBase64 must be a PNG image up to ${MAX_SVG_DIMENSION}x${MAX_SVG_DIMENSION} pixels`,
+          { field: "pngBase64" }
+        );
+      }
+      const imageBase64 = image.toString("base64");
+      debugInfo.imageBase64Length = imageBase64.length;
+      imageBytes = image.length;
+
+      // 이미지 데이터로 SVG 생성
+      svgContent = createSvgWithRaster(
+        imageBase64,
+        width,
+        height,
+        RASTER_FORMAT_INFO[format].mimeType,
+        structure,
+        idPrefix
+      );
+    }
+
+    // SVG <image> 지원이 제한적인 형식은 경고 함께 반환
+    const warning = RASTER_FORMAT_INFO[format].warning;
+
+    return apiResponse<ConvertEmojiRasterResponse>({
+      svgContent,
+      pngProcessed: true,
+      format,
+      // 선명도와 용량을 비교할 수 있도록 래스터 크기와 파일 크기 보고
+      rasterWidth: debugInfo.rasterWidth,
+      rasterHeight: debugInfo.rasterHeight,
+      imageBytes,
+      svgBytes: Buffer.byteLength(svgContent),
+      ...(warning && { warnings: [warning] }),
+      source,
+      debug: debugInfo,
+    });
+  } catch (error) {
+    console.error("Error processing emoji for raster conversion:", error);
+    return toApiErrorResponse(error, "Failed to process emoji");
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { renderEmoji, type RenderedEmoji } from "@/lib/converter/strategy";
+import { POST } from "./route";
+
+vi.mock("@/lib/converter/strategy", () => ({ renderEmoji: vi.fn() }));
+
+const post = (body: object) =>
+  POST(
+    new NextRequest("http://localhost/api/convert-emoji-v2", {
+      method: "POST",
+      body: JSON.stringify(body),
+    })
+  );
+
+describe("POST /api/convert-emoji-v2", () => {
+  beforeEach(() => {
+    // 라우트의 요청 로그는 출력하지 않음
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.mocked(renderEmoji).mockReset();
+    vi.restoreAllMocks();
+  });
+
+  it("serves image-pack styles through the fallback chain", async () => {
+    const sourceRecord = {
+      style: "noto" as const,
+      fallback: true,
+      skipped: [
+        {
+          style: "openmoji" as const,
+          reason: "style does not provide a font",
+        },
+      ],
+    };
+    vi.mocked(renderEmoji).mockResolvedValue({
+      svgContent: "<svg/>",
+      source: "noto",
+      sourceRecord,
+      details: { fontFamily: "EmojiSubset-noto-1f4c6" },
+    } as RenderedEmoji);
+
+    const response = await post({
+      emoji: "📆",
+      style: "openmoji",
+      embedMode: "inline",
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      fontProcessed: true,
+      source: sourceRecord,
+      debug: { style: "openmoji", sourceStyle: "noto" },
+    });
+    expect(vi.mocked(renderEmoji).mock.calls[0][3]).toMatchObject({
+      style: "openmoji",
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { NextRequest } from "next/server";
+import type {
+  ConvertEmojiVectorDebugInfo,
+  ConvertEmojiVectorResponse,
+} from "@/lib/api-contract";
+import {
+  apiResponse,
+  parseConvertEmojiVectorRequest,
+  readJsonBody,
+  toApiErrorResponse,
+  toConversionErrorResponse,
+} from "@/lib/api-request";
+import { getEmojiDebugInfo } from "@/lib/converter";
+import { vectorStrategy } from "@/lib/converter/vector-strategy";
+import { renderEmoji, type RenderedEmoji } from "@/lib/converter/strategy";
+
+export async function POST(request: NextRequest) {
+  try {
+    // 요청 형식과 크기 제한은 src/lib/api-contract.ts 참고
+    const { emoji, width, height, style, fallbackStyles, idPrefix } =
+      parseConvertEmojiVectorRequest(await readJsonBody(request));
+    console.log("Received emoji for vector conversion:", emoji);
+    console.log(`SVG dimensions: ${width}x${height}`);
+
+    // 수신한 이모지의 코드포인트 정보 로깅
+    const emojiInfo = getEmojiDebugInfo(emoji);
+    console.log("Received emoji details:", emojiInfo);
+
+    const debugInfo: ConvertEmojiVectorDebugInfo = {
+      emojiDetails: emojiInfo,
+      style,
+    };
+
+    // 선택한 스타일이 그리지 못하는 이모지는 대체 스타일 순서대로 시도
+    // 이미지 기반 스타일은 이모지 SVG 파일의 도형을, 폰트는 컬러 글리프를 사용
+    let rendered: RenderedEmoji;
+    try {
+      const startTime = Date.now();
+      rendered = await renderEmoji(
+        vectorStrategy,
+        emoji,
+        { width, height },
+        { style, fallbackStyles, idPrefix }
+      );
+      debugInfo.processingTimeMs = Date.now() - startTime;
+    } catch (error) {
+      console.error("Error extracting emoji glyph:", error);
+      return toConversionErrorResponse(error, debugInfo);
+    }
+
+    const { details } = rendered;
+    debugInfo.sourceStyle = rendered.sourceRecord.style;
+    debugInfo.cacheHit = details.cacheHit;
+    debugInfo.assetPath = details.assetPath;
+    debugInfo.glyphIds = details.glyphIds;
+    debugInfo.glyphFormats = details.glyphFormats;
+
+    return apiResponse<ConvertEmojiVectorResponse>({
+      svgContent: rendered.svgContent,
+      vectorProcessed: true,
+      source: rendered.sourceRecord,
+      debug: debugInfo,
+    });
+  } catch (error) {
+    console.error("Error processing emoji:", error);
+    return toApiErrorResponse(error, "Failed to process emoji");
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { renderEmoji } from "@/lib/converter/strategy";
+import { EmojiSubsetError, type EmojiSequenceReport } from "@/lib/emoji-subset";
+import { POST } from "./route";
+
+vi.mock("@/lib/converter/strategy", () => ({ renderEmoji: vi.fn() }));
+
+const post = (body: object) =>
+  POST(
+    new NextRequest("http://localhost/api/convert-emoji", {
+      method: "POST",
+      body: JSON.stringify(body),
+    })
+  );
+
+const REPORT: EmojiSequenceReport[] = [
+  {
+    sequence: "😀",
+    codePoints: [{ codePoint: "U+1F600", glyphId: 0 }],
+    glyphIds: [0],
+    expectedGlyphIds: [1],
+    colorFormats: [],
+    problems: ["missing-glyph"],
+  },
+];
+
+describe("POST /api/convert-emoji", () => {
+  beforeEach(() => {
+    // 라우트의 요청, 오류 로그는 출력하지 않음
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.mocked(renderEmoji).mockReset();
+    vi.restoreAllMocks();
+  });
+
+  it("returns the subset report instead of a plain-text SVG", async () => {
+    vi.mocked(renderEmoji).mockRejectedValue(
+      new EmojiSubsetError("Font subset cannot render 😀", REPORT)
+    );
+
+    const response = await post({ emoji: "😀", style: "noto" });
+
+    expect(response.status).toBe(422);
+    const data = await response.json();
+    expect(data).toMatchObject({
+      code: "subset-verification-failed",
+      error: "Font subset cannot render 😀",
+      report: REPORT,
+      debug: {
+        fontSubsetError: "Font subset cannot render 😀",
+        hasFontSubset: false,
+      },
+    });
+    expect(data).not.toHaveProperty("svgContent");
+  });
+
+  it("reports other subsetting failures as conversion-failed", async () => {
+    vi.mocked(renderEmoji).mockRejectedValue(new Error("Font file missing"));
+
+    const response = await post({ emoji: "😀", style: "noto" });
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toMatchObject({
+      code: "conversion-failed",
+      error: "Font file missing",
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { NextRequest } from "next/server";
+import type { FidelityDebugInfo, FidelityResponse } from "@/lib/api-contract";
+import {
+  apiResponse,
+  parseFidelityRequest,
+  readJsonBody,
+  toApiErrorResponse,
+  toConversionErrorResponse,
+} from "@/lib/api-request";
+import { createServerTextMeasurer } from "@/lib/emoji-raster";
+import { measureFidelity, type FidelityResult } from "@/lib/fidelity-render";
+
+export async function POST(request: NextRequest) {
+  try {
+    // 요청 형식과 크기 제한은 src/lib/api-contract.ts 참고
+    const { original, converted, style, fallbackStyles } = parseFidelityRequest(
+      await readJsonBody(request)
+    );
+
+    const debugInfo: FidelityDebugInfo = { style };
+
+    // 원본의 이모지는 번들 폰트로 그리고, 일반 텍스트는 변환할 때처럼 서버 측 측정 함수로 배치
+    let result: FidelityResult;
+    try {
+      const startTime = Date.now();
+      result = await measureFidelity(original, converted, {
+        style,
+        fallbackStyles,
+        measureText: createServerTextMeasurer(),
+      });
+      debugInfo.processingTimeMs = Date.now() - startTime;
+    } catch (error) {
+      console.error("Error measuring fidelity:", error);
+      return toConversionErrorResponse(error, debugInfo);
+    }
+
+    debugInfo.renderWidth = result.renderWidth;
+    debugInfo.renderHeight = result.renderHeight;
+    debugInfo.scale = result.scale;
+
+    return apiResponse<FidelityResponse>({
+      fidelity: result.report,
+      referenceStyles: result.referenceStyles,
+      debug: debugInfo,
+    });
+  } catch (error) {
+    console.error("Error processing fidelity request:", error);
+    return toApiErrorResponse(error, "Failed to measure fidelity");
+  }
+}
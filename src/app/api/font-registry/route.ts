@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import fs from "fs";
+import path from "path";
+import { getEmojiSource } from "@/lib/emoji-source";
+import { EMOJI_STYLES } from "@/lib/emoji-styles";
+import { getFontRegistryStats } from "@/lib/font-registry";
+
+// 요청마다 현재 상태를 보여줘야 하므로 정적 생성하지 않음
+export const dynamic = "force-dynamic";
+
+// 설정된 이모지 폰트 목록 (스타일, 용도, 파일 경로)
+const getConfiguredFonts = () =>
+  EMOJI_STYLES.flatMap((style) => {
+    const source = getEmojiSource(style);
+    if (source.kind !== "font") {
+      return [];
+    }
+    return [
+      { style, usage: "subset", path: source.fontPath },
+      { style, usage: "vector", path: source.vectorFontPath },
+    ];
+  });
+
+// 폰트 레지스트리 진단 정보 (상주 폰트의 로드 시간과 메모리 사용량)
+export async function GET() {
+  try {
+    const registry = getFontRegistryStats();
+    const residentPaths = new Set(registry.fonts.map((font) => font.path));
+    const memory = process.memoryUsage();
+
+    return NextResponse.json({
+      registry,
+      configured: getConfiguredFonts().map((font) => {
+        const fontPath = path.join(process.cwd(), font.path);
+        return {
+          ...font,
+          exists: fs.existsSync(fontPath),
+          resident: residentPaths.has(fontPath),
+        };
+      }),
+      process: {
+        rssBytes: memory.rss,
+        heapUsedBytes: memory.heapUsed,
+        externalBytes: memory.external,
+      },
+    });
+  } catch (error) {
+    console.error("Error reading font registry:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to read font registry",
+      },
+      { status: 500 }
+    );
+  }
+}
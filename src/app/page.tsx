@@ -23,25 +23,209 @@ import {
   Download,
   Image,
   Code,
+  PenTool,
 } from "lucide-react";
-import * as htmlToImage from "html-to-image";
+import { convert, type EmojiConversionType } from "@/lib/converter";
+import {
+  collectEmoji,
+  createCanvasTextMeasurer,
+  estimateTextWidth,
+  formatNumber,
+  type ConvertedEmoji,
+  type EmojiBox,
+  type EmojiFontFile,
+} from "@/lib/svg-emoji";
+import {
+  DEFAULT_EMOJI_STYLE,
+  EMOJI_STYLE_INFO,
+  EMOJI_STYLES,
+  type EmojiStyle,
+} from "@/lib/emoji-styles";
+import type { FontEmbedMode } from "@/lib/emoji-output";
+import {
+  DEFAULT_RASTER_FORMAT,
+  DEFAULT_RASTER_STRUCTURE,
+  RASTER_FORMAT_INFO,
+  RASTER_FORMATS,
+  RASTER_STRUCTURE_INFO,
+  RASTER_STRUCTURES,
+  type RasterFormat,
+  type RasterStructure,
+} from "@/lib/raster-format";
+import { PNG_DENSITIES, type PngResolution } from "@/lib/raster-resolution";
+import { describeFidelity, type FidelityReport } from "@/lib/fidelity";
+import { DEFAULT_ID_PREFIX, isIdPrefix } from "@/lib/svg-ids";
+import { formatRejectedContent, sanitizeSvg } from "@/lib/svg-sanitize";
+import {
+  API_ERROR_CODE_INFO,
+  API_VERSION,
+  ApiClientError,
+  isApiErrorResponse,
+  type ApiErrorCode,
+  type ConvertEmojiRasterRequest,
+  type ConvertEmojiRasterResponse,
+  type ConvertEmojiV2Request,
+  type ConvertEmojiV2Response,
+  type ConvertEmojiVectorRequest,
+  type ConvertEmojiVectorResponse,
+  type FidelityRequest,
+  type FidelityResponse,
+} from "@/lib/api-contract";
 
 interface SvgItem {
   id: string;
   content: string;
   convertedContent?: string;
-  fontData?: string | null;
-  fontFileName?: string | null;
+  fontFiles?: EmojiFontFile[];
+  embeddedFont?: EmbeddedFontInfo;
+  raster?: RasterInfo;
+  rejected?: string[]; // 업로드한 SVG에서 제거한 내용
+  rejectedOutput?: string[]; // 변환 결과에서 제거한 내용
+  fidelity?: FidelityReport; // 원본과 비교한 충실도 (측정하지 못하면 없음)
   error?: string;
 }
 
+// PNG 변환 결과의 래스터 크기와 SVG 파일 크기
+interface RasterInfo {
+  maxHeight: number; // 이모지별 래스터 높이 중 가장 큰 값 (픽셀)
+  fileBytes: number;
+}
+
+// 변환된 SVG에 포함된 폰트 서브셋 정보 (foreignObject 변환)
+interface EmbeddedFontInfo {
+  mode: FontEmbedMode;
+  bytes: number; // 이 SVG가 사용하는 서브셋 크기의 합
+}
+
+// 바이트 크기를 읽기 쉬운 단위로 표시
+const formatBytes = (bytes: number): string =>
+  bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+
+// SVG 문자열 파싱 (올바른 SVG가 아니면 에러)
+const parseSvgContent = (content: string): Document => {
+  const doc = new DOMParser().parseFromString(content, "image/svg+xml");
+  if (doc.querySelector("parsererror")) {
+    throw new Error("Invalid SVG format. Please upload a valid SVG file.");
+  }
+  return doc;
+};
+
+// 미리보기와 변환에 쓰기 전에 허용 목록에 없는 요소와 속성 제거 (올바른 SVG가 아니면 에러)
+const sanitizeSvgContent = (
+  content: string
+): { content: string; rejected: string[] } => {
+  const doc = parseSvgContent(content);
+  const rejected = formatRejectedContent(sanitizeSvg(doc));
+  return { content: new XMLSerializer().serializeToString(doc), rejected };
+};
+
+// 여러 SVG에 들어있는 이모지를 중복 없이 모으기 (파싱할 수 없는 SVG는 건너뜀)
+const collectBatchEmoji = (items: SvgItem[]): string[] => {
+  const emojis = new Set<string>();
+  for (const item of items) {
+    try {
+      collectEmoji(parseSvgContent(item.content)).forEach((emoji) =>
+        emojis.add(emoji)
+      );
+    } catch (_error) {
+      continue;
+    }
+  }
+  return Array.from(emojis);
+};
+
 // SVG 변환 타입 정의
-type ConversionType = "foreignObject" | "png";
+
+// 변환 타입별 API 엔드포인트와 표시 문구
+const CONVERSION_TYPE_INFO: Record<
+  EmojiConversionType,
+  {
+    endpoint: string;
+    buttonText: string;
+    resultTitle: string;
+    description: string;
+  }
+> = {
+  png: {
+    endpoint: "/api/convert-emoji-raster",
+    buttonText: "Convert to PNG SVG",
+    resultTitle: "Converted PNG SVGs",
+    description:
+      "PNG SVG is a raster image that's compatible with all environments, but may lose quality when scaled.",
+  },
+  foreignObject: {
+    endpoint: "/api/convert-emoji-v2",
+    buttonText: "Convert to ForeignObject SVG",
+    resultTitle: "Converted ForeignObject SVGs",
+    description:
+      "ForeignObject SVG is a vector format that stays sharp when scaled, but may have compatibility issues in some environments.",
+  },
+  vector: {
+    endpoint: "/api/convert-emoji-vector",
+    buttonText: "Convert to Outlined SVG",
+    resultTitle: "Converted Outlined SVGs",
+    description:
+      "Outlined SVG turns emoji glyphs into plain colored paths. It needs no fonts or HTML, so it works in Figma, Illustrator and other SVG tools.",
+  },
+};
+
+// foreignObject SVG의 폰트 포함 방식별 표시 문구
+// none은 "Embed font subset"을 끈 상태
+const EMBED_MODE_INFO: Record<
+  FontEmbedMode,
+  { label: string; description: string }
+> = {
+  inline: {
+    label: "Inline",
+    description:
+      "The font subset is embedded in each SVG as a data URI, so every SVG is a single self-contained file.",
+  },
+  external: {
+    label: "External File",
+    description:
+      "SVGs reference a shared font subset file next to them. Download as a ZIP to keep the font with the SVGs.",
+  },
+  none: {
+    label: "None",
+    description:
+      "No font is included. Emoji are drawn with the viewer's system emoji font and may look different on each device.",
+  },
+};
 
 export default function Home() {
   const [svgItems, setSvgItems] = useState<SvgItem[]>([]);
   const [isConverting, setIsConverting] = useState(false);
-  const [conversionType, setConversionType] = useState<ConversionType>("png");
+  const [conversionType, setConversionType] =
+    useState<EmojiConversionType>("png");
+  const [emojiStyle, setEmojiStyle] = useState<EmojiStyle>(DEFAULT_EMOJI_STYLE);
+  // foreignObject 변환에서 폰트 서브셋을 포함할지와 포함 방식
+  const [embedFont, setEmbedFont] = useState(true);
+  const [fontEmbedMode, setFontEmbedMode] =
+    useState<Exclude<FontEmbedMode, "none">>("inline");
+  const embedMode: FontEmbedMode = embedFont ? fontEmbedMode : "none";
+  // PNG 래스터 해상도 (custom이면 customResolution 픽셀)
+  const [resolutionMode, setResolutionMode] = useState<
+    "auto" | PngResolution | "custom"
+  >("auto");
+  const [customResolution, setCustomResolution] = useState(160);
+  const resolution: PngResolution =
+    resolutionMode === "custom" ? customResolution : resolutionMode;
+  // 래스터 이미지 형식과 품질 (품질은 손실 압축 형식에서만 사용)
+  const [rasterFormat, setRasterFormat] = useState<RasterFormat>(
+    DEFAULT_RASTER_FORMAT
+  );
+  const [rasterQuality, setRasterQuality] = useState<number | undefined>();
+  const [rasterStructure, setRasterStructure] = useState<RasterStructure>(
+    DEFAULT_RASTER_STRUCTURE
+  );
+  // 결과 SVG의 id 접두사와 문서 전체 id 재작성 여부 (올바르지 않은 접두사는 기본값 사용)
+  const [idPrefixInput, setIdPrefixInput] = useState(DEFAULT_ID_PREFIX);
+  const idPrefix = isIdPrefix(idPrefixInput)
+    ? idPrefixInput
+    : DEFAULT_ID_PREFIX;
+  const [rewriteIds, setRewriteIds] = useState(false);
+  // 변환 결과를 원본과 비교할지 여부 (항목마다 서버에서 래스터화하므로 선택한 경우에만)
+  const [checkFidelity, setCheckFidelity] = useState(false);
   const [conversionProgress, setConversionProgress] = useState(0);
   const { toast } = useToast();
 
@@ -51,61 +235,43 @@ export default function Home() {
 
   // 변환 결과 캐싱을 위한 상태
   const [conversionCache, setConversionCache] = useState<
-    Map<
-      string,
-      {
-        svgContent: string;
-        fontData?: string | null;
-        fontFileName?: string | null;
-      }
-    >
+    Map<string, ConvertedEmoji>
   >(new Map());
 
-  async function createEmojiPng(
-    emoji: string,
-    width: number = 160,
-    height: number = 160
-  ): Promise<string> {
-    const element = document.createElement("div");
-    element.style.cssText = `
-        font-size: ${Math.min(width, height) * 0.75}px;
-        width: ${width}px;
-        height: ${height}px;
-        display: flex;
-        justify-content: center;
-        align-items: center;
-      `;
-    element.textContent = emoji;
-
-    // body에 요소 추가 (스타일 적용을 위해 필요)
-    document.body.appendChild(element);
-
-    try {
-      // html-to-image 라이브러리를 사용하여 PNG 데이터 URL 생성
-      const dataUrl = await htmlToImage.toPng(element);
-      // Base64 데이터 부분만 추출 (data:image/png;base64, 부분 제거)
-      return dataUrl.split(",")[1];
-    } finally {
-      // 임시 요소 제거
-      document.body.removeChild(element);
-    }
-  }
-
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length === 0) return;
 
     const promises = acceptedFiles.map((file) => {
       if (file.type === "image/svg+xml") {
-        return new Promise<SvgItem>((resolve, reject) => {
+        return new Promise<SvgItem | null>((resolve, reject) => {
           const reader = new FileReader();
           reader.onload = (e) => {
-            const content = e.target?.result as string;
+            // 미리보기에서 스크립트가 실행되지 않도록 정리한 내용만 보관
+            let sanitized;
+            try {
+              sanitized = sanitizeSvgContent(e.target?.result as string);
+            } catch (_error) {
+              toast({
+                title: "Error",
+                description: `File ${file.name} is not a valid SVG file`,
+                variant: "destructive",
+              });
+              resolve(null);
+              return;
+            }
+            if (sanitized.rejected.length > 0) {
+              toast({
+                title: "Unsafe content removed",
+                description: `${file.name}: ${sanitized.rejected.join(", ")}`,
+              });
+            }
 
             resolve({
               id: `svg-${Date.now()}-${Math.random()
                 .toString(36)
                 .substring(2, 11)}`,
-              content,
+              content: sanitized.content,
+              rejected: sanitized.rejected,
             });
           };
           reader.onerror = reject;
@@ -137,6 +303,153 @@ export default function Home() {
     multiple: true,
   });
 
+  // 이모지 하나를 배치 영역 크기에 맞춰 선택한 변환 타입으로 변환 (캐시 우선)
+  const convertEmoji = async (
+    emoji: string,
+    box: EmojiBox,
+    subsetEmojis?: string[]
+  ): Promise<ConvertedEmoji> => {
+    const width = Number(formatNumber(box.width));
+    const height = Number(formatNumber(box.height));
+
+    const displayScale = Number(formatNumber(box.displayScale ?? 1));
+
+    // 캐시에 해당 이모지의 변환 결과가 있는지 확인
+    const cacheKey = `${emoji}-${conversionType}-${emojiStyle}-${embedMode}-${resolution}@${displayScale}-${rasterFormat}:${rasterQuality}:${rasterStructure}-${idPrefix}-${width}x${height}`;
+    const cachedResult = conversionCache.get(cacheKey);
+    if (cachedResult) {
+      return cachedResult;
+    }
+
+    // 선택한 변환 타입에 따라 API 엔드포인트 선택
+    const apiEndpoint = CONVERSION_TYPE_INFO[conversionType].endpoint;
+
+    const params:
+      | ConvertEmojiRasterRequest
+      | (ConvertEmojiV2Request & ConvertEmojiVectorRequest) =
+      conversionType === "png"
+        ? {
+            apiVersion: API_VERSION,
+            emoji,
+            width,
+            height,
+            // 서버에서 번들 폰트로 렌더링할 PNG 높이 (픽셀, 배수 또는 auto)
+            resolution,
+            // 배치 영역이 최종 화면에 표시되는 배율 (배수와 auto 계산용)
+            displayScale,
+            // SVG에 넣을 이미지 형식과 품질
+            format: rasterFormat,
+            structure: rasterStructure,
+            idPrefix,
+            quality: RASTER_FORMAT_INFO[rasterFormat].defaultQuality
+              ? rasterQuality
+              : undefined,
+            style: emojiStyle,
+          }
+        : {
+            apiVersion: API_VERSION,
+            emoji,
+            width,
+            height,
+            // 원본 글꼴 크기 그대로 렌더링
+            fontSize: height,
+            style: emojiStyle,
+            idPrefix,
+            includeFontData: embedMode !== "none",
+            embedMode,
+            // 배치 전체가 하나의 폰트 서브셋을 공유하도록 모든 이모지 전달
+            subsetEmojis,
+          };
+
+    // Call API to convert emoji to SVG
+    const response = await fetch(apiEndpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(params),
+    });
+
+    // API 응답이 200 OK가 아닌 경우 오류 코드를 담아 던짐
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      if (isApiErrorResponse(errorData)) {
+        throw new ApiClientError(errorData, response.status);
+      }
+      // 오류 형식이 아니면 상태 코드 기반 에러 메시지 생성
+      throw new Error(
+        `Server error (${response.status}): Failed to convert emoji`
+      );
+    }
+
+    // JSON 파싱 시도
+    let data: Partial<
+      ConvertEmojiRasterResponse &
+        ConvertEmojiV2Response &
+        ConvertEmojiVectorResponse
+    >;
+    try {
+      data = await response.json();
+    } catch (_jsonError) {
+      throw new Error("Invalid response format from server");
+    }
+
+    // Validate returned SVG content
+    if (!data.svgContent || !data.svgContent.includes("<svg")) {
+      throw new Error("Invalid SVG data returned from server");
+    }
+
+    const result: ConvertedEmoji = {
+      svgContent: data.svgContent,
+      fontData: data.fontData || null,
+      fontFileName: data.fontFileName || null,
+      fontBytes: data.fontBytes,
+      rasterHeight: data.rasterHeight,
+      source: data.source?.style,
+    };
+
+    // 캐시에 변환 결과 저장
+    setConversionCache((prevCache) => {
+      const newCache = new Map(prevCache);
+      newCache.set(cacheKey, result);
+      return newCache;
+    });
+
+    return result;
+  };
+
+  // 변환 결과를 원본과 비교한 충실도 (배지 표시용이므로 실패해도 변환은 성공으로 처리)
+  const measureFidelity = async (
+    original: string,
+    converted: string
+  ): Promise<FidelityReport | undefined> => {
+    const params: FidelityRequest = {
+      apiVersion: API_VERSION,
+      original,
+      converted,
+      style: emojiStyle,
+    };
+    try {
+      const response = await fetch("/api/fidelity", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(params),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw isApiErrorResponse(data)
+          ? new ApiClientError(data, response.status)
+          : new Error(`Server error (${response.status})`);
+      }
+      return (data as FidelityResponse).fidelity;
+    } catch (error) {
+      console.warn("Failed to measure fidelity:", error);
+      return undefined;
+    }
+  };
+
   const convertToVectorSvg = async () => {
     if (svgItems.length === 0) return;
 
@@ -152,11 +465,21 @@ export default function Home() {
 
     let hasSuccessfulConversion = false;
     let hasErrors = false;
+    // 실패한 요청의 오류 코드 (토스트 설명에 사용)
+    const errorCodes = new Set<ApiErrorCode>();
 
     // 변환이 필요한 항목들만 필터링
     const itemsToConvert = svgItems.filter((item) => !item.convertedContent);
     const totalItems = itemsToConvert.length;
 
+    // 폰트 파일을 따로 두는 foreignObject 변환은 배치 전체의 이모지를 담은 폰트 서브셋 하나를 공유
+    const batchEmojis =
+      conversionType === "foreignObject" && embedMode === "external"
+        ? collectBatchEmoji(itemsToConvert)
+        : undefined;
+    // 선택한 스타일에 없어 대체 스타일에서 가져온 이모지
+    const fallbackEmoji = new Map<string, string>();
+
     try {
       const updatedItems = [...svgItems];
       let completedItems = 0;
@@ -167,180 +490,83 @@ export default function Home() {
         if (index === -1) return;
 
         try {
-          // Parse the SVG content
-          const itemParser = new DOMParser();
-          const itemSvgDoc = itemParser.parseFromString(
-            item.content,
-            "image/svg+xml"
-          );
-          const itemSvgElement = itemSvgDoc.documentElement;
-
-          // 입력된 SVG가 올바른지 확인
-          const itemParseError = itemSvgDoc.querySelector("parsererror");
-          if (itemParseError) {
-            throw new Error(
-              "Invalid SVG format. Please upload a valid SVG file."
-            );
-          }
-
-          // Get the text content - 텍스트 요소 또는 tspan 요소 확인
-          const itemTextElement = itemSvgElement.querySelector("text, tspan");
-          if (!itemTextElement) {
-            throw new Error(
-              "No text element found in SVG. This SVG might not contain an emoji."
-            );
-          }
-
-          const itemTextContent = itemTextElement.textContent?.trim() || "";
-          if (!itemTextContent) {
-            throw new Error(
-              "Text content is empty. Please ensure the SVG contains emoji text."
-            );
-          }
-
-          // 캐시에 해당 이모지의 변환 결과가 있는지 확인
-          const cacheKey = `${itemTextContent}-${conversionType}`;
-          if (conversionCache.has(cacheKey)) {
-            const cachedResult = conversionCache.get(cacheKey)!;
-            hasSuccessfulConversion = true;
-
-            updatedItems[index] = {
-              ...item,
-              convertedContent: cachedResult.svgContent,
-              fontData: cachedResult.fontData || null,
-              fontFileName: cachedResult.fontFileName || null,
-            };
-
-            // 진행 상태 및 UI 업데이트
-            completedItems++;
-            setConversionProgress(
-              Math.round((completedItems / totalItems) * 100)
-            );
-            setSvgItems([...updatedItems]);
-            return;
-          }
-
-          // 선택한 변환 타입에 따라 API 엔드포인트 선택
-          const apiEndpoint =
-            conversionType === "foreignObject"
-              ? "/api/convert-emoji-v2"
-              : "/api/convert-emoji-png";
-
-          // PNG 데이터 생성
-          const pngBase64 = await createEmojiPng(itemTextContent);
-          const params =
-            conversionType === "png"
-              ? {
-                  emoji: itemTextContent,
-                  width: 48,
-                  height: 48,
-                  pngBase64: pngBase64,
-                }
-              : {
-                  emoji: itemTextContent,
-                  width: 48,
-                  height: 48,
-                };
-
-          // Call API to convert emoji to SVG
-          const itemResponse = await fetch(apiEndpoint, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
+          // 이 SVG가 사용하는 폰트 서브셋 크기 (같은 폰트 파일이나 같은 이모지는 한 번만 셈)
+          const fontBytes = new Map<string, number>();
+          // 이 SVG에 들어간 PNG 중 가장 큰 래스터 높이
+          let maxRasterHeight = 0;
+
+          // 이모지 런만 변환 결과로 교체하고 나머지 SVG는 그대로 유지
+          // 서버에서 받은 변환 결과도 허용 목록으로 정리한 뒤 표시
+          const {
+            content: convertedContent,
+            fontFiles,
+            emojiSources,
+            rejected,
+          } = await convert(item.content, {
+            convertEmoji: async (emoji, box) => {
+              const result = await convertEmoji(emoji, box, batchEmojis);
+              if (result.fontBytes) {
+                fontBytes.set(result.fontFileName || emoji, result.fontBytes);
+              }
+              if (result.rasterHeight) {
+                maxRasterHeight = Math.max(
+                  maxRasterHeight,
+                  result.rasterHeight
+                );
+              }
+              return result;
             },
-            body: JSON.stringify(params),
+            parseSvg: parseSvgContent,
+            serializeSvg: (doc) => new XMLSerializer().serializeToString(doc),
+            measureText: createCanvasTextMeasurer() || estimateTextWidth,
+            rewriteIds,
+            idPrefix,
           });
-
-          // API 응답이 200 OK가 아닌 경우
-          if (!itemResponse.ok) {
-            let errorMessage;
-            try {
-              // JSON 파싱 시도
-              const errorData = await itemResponse.json();
-              errorMessage =
-                errorData.error || `Server error (${itemResponse.status})`;
-            } catch (jsonError) {
-              // JSON 파싱 실패 시 상태 코드 기반 에러 메시지 생성
-              errorMessage = `Server error (${itemResponse.status}): Failed to convert emoji`;
+          for (const [emoji, source] of Object.entries(emojiSources)) {
+            if (source !== emojiStyle) {
+              fallbackEmoji.set(emoji, source);
             }
-
-            // 오류 정보를 포함하여 아이템 반환
-            hasErrors = true;
-            updatedItems[index] = {
-              ...item,
-              error: errorMessage,
-            };
-
-            // 진행 상태 및 UI 업데이트
-            completedItems++;
-            setConversionProgress(
-              Math.round((completedItems / totalItems) * 100)
-            );
-            setSvgItems([...updatedItems]);
-            return;
-          }
-
-          // JSON 파싱 시도
-          let data;
-          try {
-            data = await itemResponse.json();
-          } catch (jsonError) {
-            hasErrors = true;
-            updatedItems[index] = {
-              ...item,
-              error: "Invalid response format from server",
-            };
-
-            // 진행 상태 및 UI 업데이트
-            completedItems++;
-            setConversionProgress(
-              Math.round((completedItems / totalItems) * 100)
-            );
-            setSvgItems([...updatedItems]);
-            return;
           }
-
-          // Validate returned SVG content
-          if (!data.svgContent || !data.svgContent.includes("<svg")) {
-            hasErrors = true;
-            updatedItems[index] = {
-              ...item,
-              error: "Invalid SVG data returned from server",
-            };
-
-            // 진행 상태 및 UI 업데이트
-            completedItems++;
-            setConversionProgress(
-              Math.round((completedItems / totalItems) * 100)
-            );
-            setSvgItems([...updatedItems]);
-            return;
-          }
-
-          // 캐시에 변환 결과 저장
-          setConversionCache((prevCache) => {
-            const newCache = new Map(prevCache);
-            newCache.set(cacheKey, {
-              svgContent: data.svgContent,
-              fontData: data.fontData || null,
-              fontFileName: data.fontFileName || null,
-            });
-            return newCache;
-          });
+          const rejectedOutput = formatRejectedContent(rejected);
+          const fidelity = checkFidelity
+            ? await measureFidelity(item.content, convertedContent)
+            : undefined;
 
           // 성공적으로 변환된 경우
           hasSuccessfulConversion = true;
           updatedItems[index] = {
             ...item,
-            convertedContent: data.svgContent,
-            fontData: data.fontData || null,
-            fontFileName: data.fontFileName || null,
+            convertedContent,
+            fontFiles,
+            embeddedFont:
+              conversionType === "foreignObject"
+                ? {
+                    mode: embedMode,
+                    bytes: Array.from(fontBytes.values()).reduce(
+                      (sum, bytes) => sum + bytes,
+                      0
+                    ),
+                  }
+                : undefined,
+            raster:
+              conversionType === "png"
+                ? {
+                    maxHeight: maxRasterHeight,
+                    fileBytes: new Blob([convertedContent]).size,
+                  }
+                : undefined,
+            rejectedOutput,
+            fidelity,
+            error: undefined,
           };
         } catch (error) {
           console.error(`Error converting SVG ${item.id}:`, error);
 
           // 오류 정보를 포함하여 아이템 반환
           hasErrors = true;
+          if (error instanceof ApiClientError) {
+            errorCodes.add(error.code);
+          }
           updatedItems[index] = {
             ...item,
             error:
@@ -364,11 +590,18 @@ export default function Home() {
         (item) => item.convertedContent
       );
 
+      // 오류 코드별 설명 (코드가 없으면 콘솔 안내)
+      const errorDetails =
+        errorCodes.size > 0
+          ? Array.from(errorCodes)
+              .map((code) => API_ERROR_CODE_INFO[code].description)
+              .join(" ")
+          : "Check console for details.";
+
       if (hasSuccessfulConversion && hasErrors) {
         toast({
           title: "Partial Success",
-          description:
-            "Some emojis were converted, but others failed. Check console for details.",
+          description: `Some emojis were converted, but others failed. ${errorDetails}`,
           variant: "default",
         });
       } else if (hasSuccessfulConversion) {
@@ -378,10 +611,23 @@ export default function Home() {
             ? "All emojis have been converted to SVG. Ready to download!"
             : "Remaining emojis have been converted to SVG",
         });
+      }
+      if (fallbackEmoji.size > 0) {
+        toast({
+          title: "Fallback Styles Used",
+          description: `Not available in ${
+            EMOJI_STYLE_INFO[emojiStyle].label
+          }: ${Array.from(fallbackEmoji)
+            .map(
+              ([emoji, style]) =>
+                `${emoji} (${EMOJI_STYLE_INFO[style as EmojiStyle]?.label ?? style})`
+            )
+            .join(", ")}`,
+        });
       } else if (hasErrors) {
         toast({
           title: "Error",
-          description: "Failed to convert emojis. Check console for details.",
+          description: `Failed to convert emojis. ${errorDetails}`,
           variant: "destructive",
         });
       }
@@ -450,17 +696,7 @@ export default function Home() {
         </span>
       );
     } else {
-      const icon =
-        conversionType === "foreignObject" ? (
-          <Code className="w-5 h-5" />
-        ) : (
-          <Image className="w-5 h-5" />
-        );
-
-      const text =
-        conversionType === "foreignObject"
-          ? "Convert to ForeignObject SVG"
-          : "Convert to PNG SVG";
+      const text = CONVERSION_TYPE_INFO[conversionType].buttonText;
 
       return (
         <span className="flex items-center justify-center gap-2">
@@ -473,12 +709,11 @@ export default function Home() {
 
   const downloadSvg = async (
     svgContent: string,
-    fontData: string | undefined | null,
-    fontFileName: string | undefined | null,
+    fontFiles: EmojiFontFile[] | undefined,
     index: number
   ) => {
     // 폰트 데이터가 없으면 SVG만 다운로드
-    if (!fontData) {
+    if (!fontFiles || fontFiles.length === 0) {
       const link = document.createElement("a");
       const blob = new Blob([svgContent], { type: "image/svg+xml" });
       link.href = URL.createObjectURL(blob);
@@ -499,10 +734,10 @@ export default function Home() {
       zip.file(`emoji-${index + 1}.svg`, svgContent);
 
       // 폰트 파일 추가 (Base64 디코딩)
-      const fontBuffer = Buffer.from(fontData, "base64");
-      const actualFontFileName =
-        fontFileName || `emoji-${index + 1}-font.woff2`;
-      zip.file(actualFontFileName, fontBuffer, { binary: true });
+      for (const fontFile of fontFiles) {
+        const fontBuffer = Buffer.from(fontFile.data, "base64");
+        zip.file(fontFile.fileName, fontBuffer, { binary: true });
+      }
 
       // ZIP 생성 및 다운로드
       const content = await zip.generateAsync({ type: "blob" });
@@ -545,8 +780,7 @@ export default function Home() {
     if (convertedItems.length === 1) {
       downloadSvg(
         convertedItems[0].convertedContent!,
-        convertedItems[0].fontData,
-        convertedItems[0].fontFileName,
+        convertedItems[0].fontFiles,
         0
       );
       return;
@@ -567,14 +801,14 @@ export default function Home() {
               zip.file(`emoji-${index + 1}.svg`, item.convertedContent);
 
               // 폰트 파일이 있으면 추가 (중복 방지)
-              if (item.fontData && !processedFonts.has(item.fontData)) {
+              for (const fontFile of item.fontFiles || []) {
+                if (processedFonts.has(fontFile.data)) {
+                  continue;
+                }
                 try {
-                  const fontBuffer = Buffer.from(item.fontData, "base64");
-                  // 폰트 파일 이름 사용 또는 기본값 생성
-                  const fontFileName =
-                    item.fontFileName || `emoji-${index + 1}-font.woff2`;
-                  zip.file(fontFileName, fontBuffer, { binary: true });
-                  processedFonts.add(item.fontData);
+                  const fontBuffer = Buffer.from(fontFile.data, "base64");
+                  zip.file(fontFile.fileName, fontBuffer, { binary: true });
+                  processedFonts.add(fontFile.data);
                 } catch (fontError) {
                   console.error("Error processing font data:", fontError);
                 }
@@ -621,6 +855,9 @@ export default function Home() {
       prevItems.map((item) => ({
         ...item,
         convertedContent: undefined,
+        fontFiles: undefined,
+        embeddedFont: undefined,
+        raster: undefined,
         error: undefined,
       }))
     );
@@ -691,7 +928,7 @@ export default function Home() {
               <RadioGroup
                 value={conversionType}
                 onValueChange={(value) =>
-                  setConversionType(value as ConversionType)
+                  setConversionType(value as EmojiConversionType)
                 }
                 className="flex flex-col sm:flex-row gap-4"
               >
@@ -721,11 +958,323 @@ export default function Home() {
                     </span>
                   </label>
                 </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="vector" id="vector" />
+                  <label
+                    htmlFor="vector"
+                    className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70 flex items-center gap-1"
+                  >
+                    <PenTool className="w-4 h-4 text-blue-500" />
+                    Outlined SVG
+                    <span className="text-xs text-gray-500 dark:text-gray-400 ml-1">
+                      (Paths)
+                    </span>
+                  </label>
+                </div>
               </RadioGroup>
               <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
-                {conversionType === "foreignObject"
-                  ? "ForeignObject SVG is a vector format that stays sharp when scaled, but may have compatibility issues in some environments."
-                  : "PNG SVG is a raster image that's compatible with all environments, but may lose quality when scaled."}
+                {CONVERSION_TYPE_INFO[conversionType].description}
+              </p>
+
+              {/* foreignObject SVG의 폰트 서브셋 포함 여부와 방식 선택 */}
+              {conversionType === "foreignObject" && (
+                <>
+                  <div className="flex items-center space-x-2 mt-4 mb-3">
+                    <input
+                      type="checkbox"
+                      id="embed-font"
+                      checked={embedFont}
+                      onChange={(event) => setEmbedFont(event.target.checked)}
+                      className="h-4 w-4 accent-purple-600"
+                    />
+                    <label
+                      htmlFor="embed-font"
+                      className="text-sm font-medium text-purple-800 dark:text-purple-300"
+                    >
+                      Embed font subset
+                    </label>
+                  </div>
+                  {embedFont && (
+                    <RadioGroup
+                      value={fontEmbedMode}
+                      onValueChange={(value) =>
+                        setFontEmbedMode(value as "inline" | "external")
+                      }
+                      className="flex flex-col sm:flex-row gap-4"
+                    >
+                      {(["inline", "external"] as const).map((mode) => (
+                        <div key={mode} className="flex items-center space-x-2">
+                          <RadioGroupItem value={mode} id={`embed-${mode}`} />
+                          <label
+                            htmlFor={`embed-${mode}`}
+                            className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                          >
+                            {EMBED_MODE_INFO[mode].label}
+                          </label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                  )}
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+                    {EMBED_MODE_INFO[embedMode].description}
+                  </p>
+                </>
+              )}
+
+              {/* PNG 래스터 해상도 선택 */}
+              {conversionType === "png" && (
+                <>
+                  <h4 className="text-sm font-medium text-purple-800 dark:text-purple-300 mt-4 mb-3">
+                    Resolution
+                  </h4>
+                  <RadioGroup
+                    value={String(resolutionMode)}
+                    onValueChange={(value) =>
+                      setResolutionMode(value as PngResolution | "custom")
+                    }
+                    className="flex flex-col sm:flex-row sm:items-center gap-4"
+                  >
+                    {(["auto", ...PNG_DENSITIES, "custom"] as const).map(
+                      (mode) => (
+                        <div key={mode} className="flex items-center space-x-2">
+                          <RadioGroupItem
+                            value={mode}
+                            id={`resolution-${mode}`}
+                          />
+                          <label
+                            htmlFor={`resolution-${mode}`}
+                            className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                          >
+                            {mode === "auto"
+                              ? "Auto"
+                              : mode === "custom"
+                                ? "Custom"
+                                : mode}
+                          </label>
+                        </div>
+                      )
+                    )}
+                    {resolutionMode === "custom" && (
+                      <div className="flex items-center space-x-1">
+                        <input
+                          type="number"
+                          min={16}
+                          max={1024}
+                          value={customResolution}
+                          onChange={(event) =>
+                            setCustomResolution(
+                              Math.max(1, Number(event.target.value) || 1)
+                            )
+                          }
+                          className="w-20 rounded border border-purple-200 dark:border-purple-800 bg-white dark:bg-gray-900 px-2 py-1 text-sm"
+                        />
+                        <span className="text-xs text-gray-500">px</span>
+                      </div>
+                    )}
+                  </RadioGroup>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+                    {resolutionMode === "auto"
+                      ? "Renders each emoji at twice its final displayed size (including transforms), rounded up for cache reuse."
+                      : resolutionMode === "custom"
+                        ? "Renders every emoji at the same raster height in pixels."
+                        : `Renders each emoji at ${resolutionMode} its final displayed size.`}
+                  </p>
+
+                  {/* 래스터 이미지 형식과 품질 선택 */}
+                  <h4 className="text-sm font-medium text-purple-800 dark:text-purple-300 mt-4 mb-3">
+                    Image Format
+                  </h4>
+                  <RadioGroup
+                    value={rasterFormat}
+                    onValueChange={(value) => {
+                      // 형식을 바꾸면 품질은 새 형식의 기본값으로 되돌림
+                      setRasterFormat(value as RasterFormat);
+                      setRasterQuality(undefined);
+                    }}
+                    className="flex flex-col sm:flex-row sm:items-center gap-4"
+                  >
+                    {RASTER_FORMATS.map((format) => (
+                      <div key={format} className="flex items-center space-x-2">
+                        <RadioGroupItem
+                          value={format}
+                          id={`format-${format}`}
+                        />
+                        <label
+                          htmlFor={`format-${format}`}
+                          className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                        >
+                          {RASTER_FORMAT_INFO[format].label}
+                        </label>
+                      </div>
+                    ))}
+                    {RASTER_FORMAT_INFO[rasterFormat].defaultQuality && (
+                      <div className="flex items-center space-x-2">
+                        <label
+                          htmlFor="raster-quality"
+                          className="text-xs text-gray-500"
+                        >
+                          Quality
+                        </label>
+                        <input
+                          type="range"
+                          id="raster-quality"
+                          min={1}
+                          max={100}
+                          value={
+                            rasterQuality ??
+                            RASTER_FORMAT_INFO[rasterFormat].defaultQuality
+                          }
+                          onChange={(event) =>
+                            setRasterQuality(Number(event.target.value))
+                          }
+                          className="w-24 accent-purple-600"
+                        />
+                        <span className="text-xs text-gray-500 w-6">
+                          {rasterQuality ??
+                            RASTER_FORMAT_INFO[rasterFormat].defaultQuality}
+                        </span>
+                      </div>
+                    )}
+                  </RadioGroup>
+                  {RASTER_FORMAT_INFO[rasterFormat].warning && (
+                    <p className="text-xs text-amber-600 dark:text-amber-400 mt-3">
+                      {RASTER_FORMAT_INFO[rasterFormat].warning}
+                    </p>
+                  )}
+
+                  {/* 래스터 이미지를 SVG에 넣는 구조 선택 */}
+                  <h4 className="text-sm font-medium text-purple-800 dark:text-purple-300 mt-4 mb-3">
+                    SVG Structure
+                  </h4>
+                  <RadioGroup
+                    value={rasterStructure}
+                    onValueChange={(value) =>
+                      setRasterStructure(value as RasterStructure)
+                    }
+                    className="flex flex-col sm:flex-row gap-4"
+                  >
+                    {RASTER_STRUCTURES.map((structure) => (
+                      <div
+                        key={structure}
+                        className="flex items-center space-x-2"
+                      >
+                        <RadioGroupItem
+                          value={structure}
+                          id={`structure-${structure}`}
+                        />
+                        <label
+                          htmlFor={`structure-${structure}`}
+                          className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                        >
+                          {RASTER_STRUCTURE_INFO[structure].label}
+                        </label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+                    {RASTER_STRUCTURE_INFO[rasterStructure].description}
+                  </p>
+                </>
+              )}
+
+              {/* 이모지 디자인 세트 선택 */}
+              <h4 className="text-sm font-medium text-purple-800 dark:text-purple-300 mt-4 mb-3">
+                Emoji Style
+              </h4>
+              <RadioGroup
+                value={emojiStyle}
+                onValueChange={(value) => setEmojiStyle(value as EmojiStyle)}
+                className="flex flex-col sm:flex-row gap-4"
+              >
+                {EMOJI_STYLES.map((style) => (
+                  <div key={style} className="flex items-center space-x-2">
+                    <RadioGroupItem value={style} id={`style-${style}`} />
+                    <label
+                      htmlFor={`style-${style}`}
+                      className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                    >
+                      {EMOJI_STYLE_INFO[style].label}
+                    </label>
+                  </div>
+                ))}
+              </RadioGroup>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+                {EMOJI_STYLE_INFO[emojiStyle].description}
+              </p>
+
+              {/* 결과 SVG의 id 접두사와 문서 전체 id 재작성 */}
+              <h4 className="text-sm font-medium text-purple-800 dark:text-purple-300 mt-4 mb-3">
+                SVG IDs
+              </h4>
+              <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+                <div className="flex items-center space-x-2">
+                  <label
+                    htmlFor="id-prefix"
+                    className="text-sm font-medium leading-none"
+                  >
+                    Prefix
+                  </label>
+                  <input
+                    type="text"
+                    id="id-prefix"
+                    value={idPrefixInput}
+                    onChange={(event) => setIdPrefixInput(event.target.value)}
+                    className="w-32 rounded border border-purple-200 dark:border-purple-800 bg-white dark:bg-gray-900 px-2 py-1 text-sm"
+                  />
+                </div>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    id="rewrite-ids"
+                    checked={rewriteIds}
+                    onChange={(event) => setRewriteIds(event.target.checked)}
+                    className="h-4 w-4 accent-purple-600"
+                  />
+                  <label
+                    htmlFor="rewrite-ids"
+                    className="text-sm font-medium leading-none"
+                  >
+                    Rewrite all IDs
+                  </label>
+                </div>
+              </div>
+              {idPrefix !== idPrefixInput ? (
+                <p className="text-xs text-amber-600 dark:text-amber-400 mt-3">
+                  The prefix must start with a letter or underscore and contain
+                  only letters, digits, &quot;_&quot;, &quot;-&quot; or
+                  &quot;.&quot;. Using &quot;{DEFAULT_ID_PREFIX}&quot; instead.
+                </p>
+              ) : (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+                  {rewriteIds
+                    ? "Every ID in each converted SVG is derived from a hash of the whole file, so several converted SVGs can be inlined into one page without clashing."
+                    : "IDs of generated markup are derived from each emoji's content; repeated emoji in one SVG get numbered IDs."}
+                </p>
+              )}
+
+              {/* 변환 결과를 원본과 비교하는 충실도 검사 */}
+              <h4 className="text-sm font-medium text-purple-800 dark:text-purple-300 mt-4 mb-3">
+                Fidelity
+              </h4>
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="check-fidelity"
+                  checked={checkFidelity}
+                  onChange={(event) => setCheckFidelity(event.target.checked)}
+                  className="h-4 w-4 accent-purple-600"
+                />
+                <label
+                  htmlFor="check-fidelity"
+                  className="text-sm font-medium leading-none"
+                >
+                  Check fidelity
+                </label>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+                {checkFidelity
+                  ? "Each converted SVG is rendered on the server next to the original and marked with a fidelity score. This adds a server render per file."
+                  : "Turn on to compare each converted SVG with the original and flag conversions that drift."}
               </p>
             </div>
 
@@ -790,7 +1339,7 @@ export default function Home() {
                               key={item.id}
                               className={`${getItemSize(
                                 svgItems.length
-                              )} flex items-center justify-center bg-white dark:bg-gray-800 rounded-lg shadow-sm hover:shadow-md transition-shadow border border-purple-100 dark:border-purple-800`}
+                              )} flex items-center justify-center bg-white dark:bg-gray-800 rounded-lg shadow-sm hover:shadow-md transition-shadow border border-purple-100 dark:border-purple-800 relative`}
                             >
                               <div
                                 dangerouslySetInnerHTML={{
@@ -798,6 +1347,14 @@ export default function Home() {
                                 }}
                                 className="w-full h-full flex items-center justify-center transform scale-75 emoji-text"
                               />
+                              {item.rejected && item.rejected.length > 0 && (
+                                <span
+                                  className="absolute top-1 right-1 rounded bg-amber-100 dark:bg-amber-900 px-1 text-[10px] leading-4 text-amber-700 dark:text-amber-200"
+                                  title={`Removed: ${item.rejected.join(", ")}`}
+                                >
+                                  Sanitized
+                                </span>
+                              )}
                             </div>
                           ))}
                         </div>
@@ -809,9 +1366,7 @@ export default function Home() {
                       <div className="flex items-center gap-2">
                         <Sparkles className="w-4 h-4 text-yellow-400" />
                         <h3 className="font-medium text-pink-600 dark:text-pink-300">
-                          {conversionType === "foreignObject"
-                            ? "Converted ForeignObject SVGs"
-                            : "Converted PNG SVGs"}
+                          {CONVERSION_TYPE_INFO[conversionType].resultTitle}
                         </h3>
                       </div>
                       <div className="bg-gradient-to-br from-pink-50 to-blue-50 dark:from-pink-950/40 dark:to-blue-950/40 rounded-xl border border-pink-100 dark:border-pink-900 p-6 shadow-inner relative">
@@ -831,14 +1386,73 @@ export default function Home() {
                                     }}
                                     className="w-full h-full flex items-center justify-center transform scale-75"
                                   />
+                                  {item.raster && (
+                                    <span
+                                      className="absolute top-1 left-1 rounded bg-purple-100 dark:bg-purple-900 px-1 text-[10px] leading-4 text-purple-700 dark:text-purple-200"
+                                      title={`SVG file: ${formatBytes(
+                                        item.raster.fileBytes
+                                      )}, PNG up to ${
+                                        item.raster.maxHeight
+                                      }px high`}
+                                    >
+                                      {formatBytes(item.raster.fileBytes)}
+                                    </span>
+                                  )}
+                                  {item.embeddedFont && (
+                                    <span
+                                      className="absolute top-1 left-1 rounded bg-purple-100 dark:bg-purple-900 px-1 text-[10px] leading-4 text-purple-700 dark:text-purple-200"
+                                      title={
+                                        item.embeddedFont.mode === "none"
+                                          ? "No font subset embedded"
+                                          : `${
+                                              EMBED_MODE_INFO[
+                                                item.embeddedFont.mode
+                                              ].label
+                                            } font subset: ${formatBytes(
+                                              item.embeddedFont.bytes
+                                            )}`
+                                      }
+                                    >
+                                      {item.embeddedFont.mode === "none"
+                                        ? "No font"
+                                        : formatBytes(item.embeddedFont.bytes)}
+                                    </span>
+                                  )}
+                                  {item.rejectedOutput &&
+                                    item.rejectedOutput.length > 0 && (
+                                      <span
+                                        className="absolute top-1 right-1 rounded bg-amber-100 dark:bg-amber-900 px-1 text-[10px] leading-4 text-amber-700 dark:text-amber-200"
+                                        title={`Removed: ${item.rejectedOutput.join(
+                                          ", "
+                                        )}`}
+                                      >
+                                        Sanitized
+                                      </span>
+                                    )}
+                                  {item.fidelity && (
+                                    <span
+                                      className={`absolute bottom-1 left-1 rounded px-1 text-[10px] leading-4 ${
+                                        item.fidelity.passed
+                                          ? "bg-green-100 dark:bg-green-900 text-green-700 dark:text-green-200"
+                                          : "bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-200"
+                                      }`}
+                                      title={`Compared with the original: ${describeFidelity(
+                                        item.fidelity
+                                      )}`}
+                                    >
+                                      {item.fidelity.passed
+                                        ? "Fidelity"
+                                        : "Drift"}{" "}
+                                      {Math.round(item.fidelity.score * 100)}%
+                                    </span>
+                                  )}
                                   <Button
                                     size="icon"
                                     variant="ghost"
                                     onClick={() =>
                                       downloadSvg(
                                         item.convertedContent!,
-                                        item.fontData,
-                                        item.fontFileName,
+                                        item.fontFiles,
                                         index
                                       )
                                     }
@@ -0,0 +1,290 @@
+// 변환 API의 요청과 응답 형식, 오류 코드
+// API 라우트와 웹 페이지가 같은 타입을 사용하도록 공유하며, 클라이언트에서도 가져오므로 서버 전용 모듈은 타입으로만 참조한다
+// 요청 검사는 src/lib/api-request.ts 참고
+//
+// 형식을 호환되지 않게 바꾸면 API_VERSION을 올린다
+// 요청의 apiVersion은 생략할 수 있고, 응답에는 항상 apiVersion이 들어간다
+import type { EmojiDebugInfo } from "./converter";
+import type { EmojiSourceAttempt, EmojiSourceRecord } from "./emoji-fallback";
+import type { FontEmbedMode } from "./emoji-output";
+import type { EmojiStyle } from "./emoji-styles";
+import type { EmojiSequenceReport } from "./emoji-subset";
+import type { FidelityReport } from "./fidelity";
+import type { RasterFormat, RasterStructure } from "./raster-format";
+import type { PngResolution } from "./raster-resolution";
+
+export const API_VERSION = 1;
+
+// 요청 크기 제한
+export const MAX_REQUEST_BYTES = 4 * 1024 * 1024; // JSON 본문 전체
+export const MAX_CLIENT_PNG_BASE64_LENGTH = 3 * 1024 * 1024; // 클라이언트가 보내는 PNG (Base64 문자 수)
+export const MAX_SVG_DIMENSION = 4096; // width, height, fontSize
+export const MAX_DISPLAY_SCALE = 64;
+export const MAX_SUBSET_EMOJIS = 500;
+
+// 기계가 읽을 수 있는 오류 코드
+//   invalid-body             본문을 읽을 수 없음 (JSON 객체나 multipart 업로드가 아님)
+//   payload-too-large        본문이나 필드가 크기 제한을 넘음
+//   unsupported-api-version  지원하지 않는 apiVersion
+//   missing-field            필수 필드가 없음
+//   invalid-field            필드 값이 올바르지 않음
+//   style-not-supported      선택한 스타일로는 요청한 변환을 할 수 없음
+//   emoji-not-available      어떤 스타일도 이모지를 그리지 못함 (attempts 참고)
+//   subset-verification-failed  폰트 서브셋이 이모지를 그리지 못함 (report 참고)
+//   conversion-failed        변환 도중 실패
+//   internal-error           그 밖의 서버 오류
+export type ApiErrorCode =
+  | "invalid-body"
+  | "payload-too-large"
+  | "unsupported-api-version"
+  | "missing-field"
+  | "invalid-field"
+  | "style-not-supported"
+  | "emoji-not-available"
+  | "subset-verification-failed"
+  | "conversion-failed"
+  | "internal-error";
+
+// 오류 코드별 HTTP 상태와 사용자에게 보여줄 설명
+export const API_ERROR_CODE_INFO: Record<
+  ApiErrorCode,
+  { status: number; description: string }
+> = {
+  "invalid-body": {
+    status: 400,
+    description: "The request could not be read.",
+  },
+  "payload-too-large": {
+    status: 413,
+    description: "The request is too large.",
+  },
+  "unsupported-api-version": {
+    status: 400,
+    description: "The server does not support this version of the app.",
+  },
+  "missing-field": {
+    status: 400,
+    description: "The request is missing a required option.",
+  },
+  "invalid-field": {
+    status: 400,
+    description: "An option in the request is not valid.",
+  },
+  "style-not-supported": {
+    status: 400,
+    description: "The selected emoji style does not support this output.",
+  },
+  "emoji-not-available": {
+    status: 422,
+    description: "No emoji style can render this emoji.",
+  },
+  "subset-verification-failed": {
+    status: 422,
+    description: "The font subset could not render this emoji.",
+  },
+  "conversion-failed": {
+    status: 500,
+    description: "The emoji could not be converted.",
+  },
+  "internal-error": {
+    status: 500,
+    description: "The server failed to process the request.",
+  },
+};
+
+// 모든 오류 응답의 형식
+export interface ApiErrorResponse {
+  apiVersion: number;
+  error: string; // 사람이 읽을 수 있는 메시지
+  code: ApiErrorCode;
+  field?: string; // 잘못된 요청 필드 (missing-field, invalid-field, payload-too-large)
+  attempts?: EmojiSourceAttempt[]; // emoji-not-available
+  report?: EmojiSequenceReport[]; // subset-verification-failed
+  debug?: object;
+}
+
+export const isApiErrorResponse = (value: unknown): value is ApiErrorResponse =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as ApiErrorResponse).error === "string" &&
+  typeof (value as ApiErrorResponse).code === "string";
+
+// 이모지 하나를 변환하는 요청의 공통 필드
+export interface EmojiRequestBase {
+  apiVersion?: number;
+  emoji: string;
+  style?: EmojiStyle;
+}
+
+// POST /api/convert-emoji
+export type ConvertEmojiRequest = EmojiRequestBase;
+
+// POST /api/convert-emoji-v2
+export interface ConvertEmojiV2Request extends EmojiRequestBase {
+  width?: number;
+  height?: number;
+  fontSize?: number;
+  includeFontData?: boolean;
+  embedMode?: FontEmbedMode;
+  subsetEmojis?: string[];
+  fallbackStyles?: EmojiStyle[];
+}
+
+// POST /api/convert-emoji-raster (/api/convert-emoji-png)
+export interface ConvertEmojiRasterRequest extends EmojiRequestBase {
+  width?: number;
+  height?: number;
+  pngBase64?: string;
+  resolution?: PngResolution;
+  displayScale?: number;
+  format?: RasterFormat;
+  quality?: number;
+  structure?: RasterStructure;
+  idPrefix?: string;
+  fallbackStyles?: EmojiStyle[];
+}
+
+// POST /api/convert-emoji-vector
+export interface ConvertEmojiVectorRequest extends EmojiRequestBase {
+  width?: number;
+  height?: number;
+  idPrefix?: string;
+  fallbackStyles?: EmojiStyle[];
+}
+
+// POST /api/fidelity
+// 원본 SVG와 변환 결과 SVG를 래스터화해 비교 (style은 원본의 이모지를 그릴 번들 폰트)
+export interface FidelityRequest {
+  apiVersion?: number;
+  original: string;
+  converted: string;
+  style?: EmojiStyle;
+  fallbackStyles?: EmojiStyle[];
+}
+
+// 이모지 코드포인트 디버그 정보 (src/lib/converter/debug.ts)
+export type { EmojiDebugInfo };
+
+// 라우트별 디버그 정보
+export interface ConvertEmojiDebugInfo {
+  emojiDetails: EmojiDebugInfo;
+  cacheHit?: boolean;
+  processingTimeMs?: number;
+  fontSubsetCreated?: boolean;
+  fontBase64Length?: number;
+  fontSubsetError?: string;
+  hasFontSubset?: boolean;
+  style?: string;
+}
+
+export interface ConvertEmojiV2DebugInfo {
+  emojiDetails: EmojiDebugInfo;
+  cacheHit?: boolean;
+  processingTimeMs?: number;
+  fontProcessed?: boolean;
+  fontSubsetCreated?: boolean;
+  fontBase64Length?: number;
+  fontSubsetError?: string;
+  style?: string;
+  sourceStyle?: string;
+  sharedSubsetEmojiCount?: number;
+  embedMode?: string;
+}
+
+export interface ConvertEmojiRasterDebugInfo {
+  emojiDetails: EmojiDebugInfo;
+  processingTimeMs?: number;
+  imageBase64Length?: number;
+  renderedOnServer?: boolean;
+  rasterWidth?: number;
+  rasterHeight?: number;
+  resolution?: string | number;
+  displayScale?: number;
+  format?: string;
+  quality?: number;
+  structure?: string;
+  style?: string;
+  sourceStyle?: string;
+  assetFormat?: string;
+  cacheHit?: boolean;
+}
+
+export interface ConvertEmojiVectorDebugInfo {
+  emojiDetails: EmojiDebugInfo;
+  cacheHit?: boolean;
+  processingTimeMs?: number;
+  glyphIds?: number[];
+  glyphFormats?: string[];
+  style?: string;
+  sourceStyle?: string;
+  assetPath?: string;
+}
+
+export interface FidelityDebugInfo {
+  processingTimeMs?: number;
+  renderWidth?: number;
+  renderHeight?: number;
+  scale?: number;
+  style?: string;
+}
+
+// 변환 성공 응답의 공통 필드
+export interface ConversionResponseBase {
+  apiVersion: number;
+  svgContent: string;
+  source?: EmojiSourceRecord; // 이모지를 그린 스타일과 건너뛴 스타일
+}
+
+export interface ConvertEmojiResponse extends ConversionResponseBase {
+  fontProcessed: boolean;
+  fontFamily: string;
+  debug: ConvertEmojiDebugInfo;
+}
+
+export interface ConvertEmojiV2Response extends ConversionResponseBase {
+  fontProcessed: boolean;
+  fontFamily: string;
+  embedMode: FontEmbedMode;
+  fontData?: string; // external 방식의 폰트 파일 (Base64)
+  fontFileName?: string;
+  fontBytes?: number;
+  debug: ConvertEmojiV2DebugInfo;
+}
+
+export interface ConvertEmojiRasterResponse extends ConversionResponseBase {
+  pngProcessed: true;
+  format: RasterFormat;
+  rasterWidth?: number;
+  rasterHeight?: number;
+  imageBytes: number;
+  svgBytes: number;
+  warnings?: string[];
+  debug: ConvertEmojiRasterDebugInfo;
+}
+
+export interface ConvertEmojiVectorResponse extends ConversionResponseBase {
+  vectorProcessed: true;
+  debug: ConvertEmojiVectorDebugInfo;
+}
+
+export interface FidelityResponse {
+  apiVersion: number;
+  fidelity: FidelityReport;
+  referenceStyles: Record<string, string>; // 원본의 이모지마다 그린 스타일
+  debug: FidelityDebugInfo;
+}
+
+// 클라이언트에서 오류 응답을 받았을 때 던지는 오류 (code로 원인을 구분)
+export class ApiClientError extends Error {
+  readonly code: ApiErrorCode;
+  readonly field?: string;
+  readonly status: number;
+
+  constructor(response: ApiErrorResponse, status: number) {
+    super(response.error);
+    this.name = "ApiClientError";
+    this.code = response.code;
+    this.field = response.field;
+    this.status = status;
+  }
+}
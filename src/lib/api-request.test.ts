@@ -0,0 +1,43 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it } from "vitest";
+import { readJsonBody } from "./api-request";
+
+// content-length 없이 조각을 하나씩 내보내는 요청 (읽은 조각 수를 기록)
+const streamingRequest = (chunks: string[]) => {
+  const encoder = new TextEncoder();
+  const stats = { pulled: 0 };
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (stats.pulled === chunks.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(encoder.encode(chunks[stats.pulled++]));
+    },
+  });
+  // Node의 fetch는 스트림 본문에 duplex 옵션을 요구한다 (RequestInit 타입에는 없음)
+  const init = { method: "POST", body, duplex: "half" };
+  const request = new NextRequest("http://localhost/api/convert-emoji", init);
+  return { request, stats };
+};
+
+describe("readJsonBody", () => {
+  it("reads a streamed body without content-length", async () => {
+    const { request } = streamingRequest(['{"emoji":', '"😀"}']);
+    expect(request.headers.get("content-length")).toBeNull();
+    await expect(readJsonBody(request, 64)).resolves.toEqual({ emoji: "😀" });
+  });
+
+  it("stops reading once the body passes the limit", async () => {
+    const { request, stats } = streamingRequest([
+      '{"emoji":"',
+      "x".repeat(64),
+      "x".repeat(64),
+      '"}',
+    ]);
+    await expect(readJsonBody(request, 64)).rejects.toMatchObject({
+      code: "payload-too-large",
+    });
+    expect(stats.pulled).toBeLessThan(4);
+  });
+});
@@ -0,0 +1,395 @@
+// 변환 API 요청을 읽고 검사하는 함수와 공통 응답 생성 함수 (서버 전용)
+// 요청과 응답 형식은 src/lib/api-contract.ts에 정의되어 있다
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  API_ERROR_CODE_INFO,
+  API_VERSION,
+  MAX_CLIENT_PNG_BASE64_LENGTH,
+  MAX_DISPLAY_SCALE,
+  MAX_REQUEST_BYTES,
+  MAX_SUBSET_EMOJIS,
+  MAX_SVG_DIMENSION,
+  type ApiErrorCode,
+  type ApiErrorResponse,
+} from "./api-contract";
+import { EmojiSourceError, isEmojiStyleList } from "./emoji-fallback";
+import {
+  FONT_EMBED_MODES,
+  isFontEmbedMode,
+  type FontEmbedMode,
+} from "./emoji-output";
+import {
+  DEFAULT_EMOJI_STYLE,
+  EMOJI_STYLES,
+  isEmojiStyle,
+} from "./emoji-styles";
+import { EmojiSubsetError } from "./emoji-subset";
+import { isEmojiText, MAX_EMOJI_TEXT_LENGTH } from "./emoji-text";
+import {
+  DEFAULT_RASTER_FORMAT,
+  DEFAULT_RASTER_STRUCTURE,
+  isRasterFormat,
+  isRasterQuality,
+  isRasterStructure,
+  RASTER_FORMATS,
+  RASTER_STRUCTURES,
+} from "./raster-format";
+import {
+  DEFAULT_PNG_RESOLUTION,
+  parsePngResolution,
+  PNG_DENSITIES,
+  type PngResolution,
+} from "./raster-resolution";
+import { DEFAULT_ID_PREFIX, isIdPrefix } from "./svg-ids";
+
+// 요청을 처리할 수 없을 때 발생하는 오류 (라우트에서 오류 응답으로 바뀜)
+export class ApiRequestError extends Error {
+  readonly code: ApiErrorCode;
+  readonly field?: string;
+
+  constructor(code: ApiErrorCode, message: string, field?: string) {
+    super(message);
+    this.name = "ApiRequestError";
+    this.code = code;
+    this.field = field;
+  }
+}
+
+type RequestFields = Record<string, unknown>;
+
+// 요청 본문을 크기 제한 안에서 읽어 JSON 객체로 반환
+export async function readJsonBody(
+  request: NextRequest,
+  maxBytes: number = MAX_REQUEST_BYTES
+): Promise<RequestFields> {
+  const tooLarge = () =>
+    new ApiRequestError(
+      "payload-too-large",
+      `Request body must be at most ${maxBytes} bytes`
+    );
+  if (Number(request.headers.get("content-length")) > maxBytes) {
+    throw tooLarge();
+  }
+
+  // content-length가 없거나 실제 본문과 다를 수 있으므로 나눠 읽으면서 제한을 넘는 즉시 중단
+  const chunks: Uint8Array[] = [];
+  let totalBytes = 0;
+  if (request.body) {
+    const reader = request.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      totalBytes += value.byteLength;
+      if (totalBytes > maxBytes) {
+        await reader.cancel();
+        throw tooLarge();
+      }
+      chunks.push(value);
+    }
+  }
+  const text = Buffer.concat(chunks).toString("utf8");
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch (_parseError) {
+    throw new ApiRequestError("invalid-body", "Request body is not valid JSON");
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new ApiRequestError(
+      "invalid-body",
+      "Request body must be a JSON object"
+    );
+  }
+
+  const { apiVersion } = body as RequestFields;
+  if (apiVersion !== undefined && apiVersion !== API_VERSION) {
+    throw new ApiRequestError(
+      "unsupported-api-version",
+      `apiVersion ${apiVersion} is not supported (expected ${API_VERSION})`,
+      "apiVersion"
+    );
+  }
+  return body as RequestFields;
+}
+
+// 선택 필드 읽기 (없으면 undefined, 있는데 올바르지 않으면 invalid-field)
+const readOptional = <T>(
+  fields: RequestFields,
+  field: string,
+  isValid: (value: unknown) => value is T,
+  expected: string
+): T | undefined => {
+  const value = fields[field];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isValid(value)) {
+    throw new ApiRequestError(
+      "invalid-field",
+      `${field} must be ${expected}`,
+      field
+    );
+  }
+  return value;
+};
+
+const isDimension = (value: unknown): value is number =>
+  typeof value === "number" &&
+  Number.isFinite(value) &&
+  value > 0 &&
+  value <= MAX_SVG_DIMENSION;
+
+const DIMENSION = `a positive number up to ${MAX_SVG_DIMENSION}`;
+
+const isBoolean = (value: unknown): value is boolean =>
+  typeof value === "boolean";
+
+const isDisplayScale = (value: unknown): value is number =>
+  typeof value === "number" &&
+  Number.isFinite(value) &&
+  value > 0 &&
+  value <= MAX_DISPLAY_SCALE;
+
+const isSubsetEmojiList = (value: unknown): value is string[] =>
+  Array.isArray(value) &&
+  value.length <= MAX_SUBSET_EMOJIS &&
+  value.every(isEmojiText);
+
+const isPngResolution = (value: unknown): value is PngResolution =>
+  parsePngResolution(value) !== null;
+
+// 모든 변환 요청에 공통인 이모지와 스타일
+// 마크업이나 일반 텍스트가 SVG에 들어가지 않도록 이모지 자소 클러스터만 허용
+const readEmojiFields = (fields: RequestFields) => {
+  if (fields.emoji === undefined || fields.emoji === "") {
+    throw new ApiRequestError("missing-field", "Emoji is required", "emoji");
+  }
+  const emoji = readOptional(
+    fields,
+    "emoji",
+    isEmojiText,
+    `only emoji characters (up to ${MAX_EMOJI_TEXT_LENGTH} code units)`
+  )!;
+  const style =
+    readOptional(
+      fields,
+      "style",
+      isEmojiStyle,
+      `one of: ${EMOJI_STYLES.join(", ")}`
+    ) ?? DEFAULT_EMOJI_STYLE;
+  return { emoji, style };
+};
+
+const readFallbackStyles = (fields: RequestFields) =>
+  readOptional(
+    fields,
+    "fallbackStyles",
+    isEmojiStyleList,
+    "an array of emoji styles"
+  );
+
+const readBox = (fields: RequestFields) => ({
+  width: readOptional(fields, "width", isDimension, DIMENSION) ?? 72,
+  height: readOptional(fields, "height", isDimension, DIMENSION) ?? 72,
+});
+
+const readIdPrefix = (fields: RequestFields) =>
+  readOptional(
+    fields,
+    "idPrefix",
+    isIdPrefix,
+    "a name that starts with a letter or underscore and contains only letters, digits, '_', '-' or '.'"
+  ) ?? DEFAULT_ID_PREFIX;
+
+// POST /api/convert-emoji
+export const parseConvertEmojiRequest = (fields: RequestFields) =>
+  readEmojiFields(fields);
+
+// POST /api/convert-emoji-v2
+export const parseConvertEmojiV2Request = (fields: RequestFields) => {
+  const box = readBox(fields);
+  const includeFontData =
+    readOptional(fields, "includeFontData", isBoolean, "a boolean") ?? false;
+  const embedMode: FontEmbedMode =
+    readOptional(
+      fields,
+      "embedMode",
+      isFontEmbedMode,
+      `one of: ${FONT_EMBED_MODES.join(", ")}`
+    ) ?? (includeFontData ? "external" : "none");
+  return {
+    ...readEmojiFields(fields),
+    ...box,
+    fontSize:
+      readOptional(fields, "fontSize", isDimension, DIMENSION) ??
+      box.height * 0.7,
+    embedMode,
+    // subsetEmojis가 있으면 배치 전체의 이모지를 담은 공유 서브셋을 만든다
+    subsetEmojis: readOptional(
+      fields,
+      "subsetEmojis",
+      isSubsetEmojiList,
+      `an array of up to ${MAX_SUBSET_EMOJIS} emoji strings`
+    ),
+    fallbackStyles: readFallbackStyles(fields),
+  };
+};
+
+// POST /api/convert-emoji-raster (/api/convert-emoji-png)
+export const parseConvertEmojiRasterRequest = (fields: RequestFields) => {
+  // 클라이언트가 보낸 PNG는 다른 필드보다 먼저 크기를 확인
+  const { pngBase64 } = fields;
+  if (
+    typeof pngBase64 === "string" &&
+    pngBase64.length > MAX_CLIENT_PNG_BASE64_LENGTH
+  ) {
+    throw new ApiRequestError(
+      "payload-too-large",
+      `pngBase64 must be at most ${MAX_CLIENT_PNG_BASE64_LENGTH} characters`,
+      "pngBase64"
+    );
+  }
+  const format =
+    readOptional(
+      fields,
+      "format",
+      isRasterFormat,
+      `one of: ${RASTER_FORMATS.join(", ")}`
+    ) ?? DEFAULT_RASTER_FORMAT;
+
+  return {
+    ...readEmojiFields(fields),
+    ...readBox(fields),
+    pngBase64: readOptional(
+      fields,
+      "pngBase64",
+      (value): value is string =>
+        typeof value === "string" && /^[A-Za-z0-9+/]*={0,2}$/.test(value),
+      "a Base64 encoded PNG"
+    ),
+    // 해상도는 픽셀 크기, 표시 크기의 배수(1x~4x) 또는 auto
+    resolution: parsePngResolution(
+      readOptional(
+        fields,
+        "resolution",
+        isPngResolution,
+        `a pixel size, ${PNG_DENSITIES.join(", ")} or auto`
+      ) ?? DEFAULT_PNG_RESOLUTION
+    )!,
+    displayScale:
+      readOptional(
+        fields,
+        "displayScale",
+        isDisplayScale,
+        `a positive number up to ${MAX_DISPLAY_SCALE}`
+      ) ?? 1,
+    format,
+    quality: readOptional(
+      fields,
+      "quality",
+      isRasterQuality,
+      "an integer from 1 to 100"
+    ),
+    structure:
+      readOptional(
+        fields,
+        "structure",
+        isRasterStructure,
+        `one of: ${RASTER_STRUCTURES.join(", ")}`
+      ) ?? DEFAULT_RASTER_STRUCTURE,
+    idPrefix: readIdPrefix(fields),
+    fallbackStyles: readFallbackStyles(fields),
+  };
+};
+
+// POST /api/convert-emoji-vector
+export const parseConvertEmojiVectorRequest = (fields: RequestFields) => ({
+  ...readEmojiFields(fields),
+  ...readBox(fields),
+  idPrefix: readIdPrefix(fields),
+  fallbackStyles: readFallbackStyles(fields),
+});
+
+const isSvgText = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().startsWith("<");
+
+// POST /api/fidelity
+export const parseFidelityRequest = (fields: RequestFields) => {
+  const readSvg = (field: "original" | "converted") => {
+    if (fields[field] === undefined || fields[field] === "") {
+      throw new ApiRequestError("missing-field", `${field} is required`, field);
+    }
+    return readOptional(fields, field, isSvgText, "an SVG document")!;
+  };
+  return {
+    original: readSvg("original"),
+    converted: readSvg("converted"),
+    style:
+      readOptional(
+        fields,
+        "style",
+        isEmojiStyle,
+        `one of: ${EMOJI_STYLES.join(", ")}`
+      ) ?? DEFAULT_EMOJI_STYLE,
+    fallbackStyles: readFallbackStyles(fields),
+  };
+};
+
+// 성공 응답 (apiVersion 포함)
+export const apiResponse = <T extends { apiVersion: number }>(
+  body: Omit<T, "apiVersion">
+): NextResponse<T> =>
+  NextResponse.json({ apiVersion: API_VERSION, ...body } as T);
+
+// 오류 응답 (HTTP 상태는 오류 코드로 정해짐)
+export const apiError = (
+  code: ApiErrorCode,
+  message: string,
+  details: Omit<ApiErrorResponse, "apiVersion" | "code" | "error"> = {}
+): NextResponse<ApiErrorResponse> =>
+  NextResponse.json<ApiErrorResponse>(
+    { apiVersion: API_VERSION, error: message, code, ...details },
+    { status: API_ERROR_CODE_INFO[code].status }
+  );
+
+// 라우트에서 잡은 예외를 오류 응답으로 변환 (요청 오류가 아니면 internal-error)
+export const toApiErrorResponse = (
+  error: unknown,
+  fallbackMessage: string
+): NextResponse<ApiErrorResponse> =>
+  error instanceof ApiRequestError
+    ? apiError(error.code, error.message, { field: error.field })
+    : apiError(
+        "internal-error",
+        error instanceof Error ? error.message : fallbackMessage,
+        { debug: { error: String(error) } }
+      );
+
+// 이모지 변환 도중 발생한 예외를 오류 응답으로 변환
+//   EmojiSourceError  어떤 스타일도 이모지를 그리지 못함 (emoji-not-available)
+//   EmojiSubsetError  서브셋이 이모지를 그리지 못함 (subset-verification-failed)
+export const toConversionErrorResponse = (
+  error: unknown,
+  debug: object
+): NextResponse<ApiErrorResponse> => {
+  if (error instanceof EmojiSourceError) {
+    return apiError("emoji-not-available", error.message, {
+      attempts: error.attempts,
+      debug,
+    });
+  }
+  if (error instanceof EmojiSubsetError) {
+    return apiError("subset-verification-failed", error.message, {
+      report: error.report,
+      debug,
+    });
+  }
+  return apiError(
+    "conversion-failed",
+    error instanceof Error ? error.message : "Failed to convert emoji",
+    { debug }
+  );
+};
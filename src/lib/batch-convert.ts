@@ -0,0 +1,208 @@
+// 여러 SVG 파일을 서버에서 한 번에 변환하는 유틸리티
+// CLI와 일괄 변환 API가 같은 변환 결과와 매니페스트를 만들도록 공유한다
+import {
+  convert,
+  type EmojiConversionType,
+  type ServerConverterOptions,
+} from "./converter";
+import { getSharedSubsetEmojis } from "./converter/font-strategy";
+import { parseSvgDocument } from "./converter/parse";
+import { createServerConvertOptions } from "./converter/server";
+import { getEmojiStyleChain } from "./emoji-fallback";
+import { getEmojiSource } from "./emoji-source";
+import type { EmojiStyle } from "./emoji-styles";
+import { getSharedSubsetFileName } from "./emoji-subset";
+import {
+  DEFAULT_RASTER_FORMAT,
+  DEFAULT_RASTER_STRUCTURE,
+  RASTER_FORMAT_INFO,
+  type RasterFormat,
+  type RasterStructure,
+} from "./raster-format";
+import {
+  DEFAULT_PNG_RESOLUTION,
+  type PngResolution,
+} from "./raster-resolution";
+import { collectEmoji, type EmojiFontFile } from "./svg-emoji";
+import { DEFAULT_ID_PREFIX } from "./svg-ids";
+import { formatRejectedContent } from "./svg-sanitize";
+
+// 변환할 SVG 파일
+export interface BatchInputFile {
+  input: string; // 보고용 원본 경로
+  output: string; // 결과 파일의 상대 경로
+  content: string;
+}
+
+// 변환된 SVG 파일
+export interface BatchOutputFile {
+  path: string;
+  content: string;
+}
+
+// 파일별 변환 결과
+export interface BatchFileResult {
+  input: string;
+  output?: string;
+  bytes?: number; // 변환된 SVG 파일 크기
+  fontFiles?: string[];
+  emojiSources?: Record<string, string>; // 이모지 -> 그 이모지를 그린 스타일
+  rejected?: string[]; // 원본과 변환 결과에서 허용 목록에 없어 제거한 내용
+  error?: string;
+}
+
+// 일괄 변환 결과 요약
+export interface BatchManifest {
+  type: EmojiConversionType;
+  style: EmojiStyle;
+  styleChain: EmojiStyle[]; // style과 대체 스타일을 시도한 순서
+  size: PngResolution;
+  format: RasterFormat; // PNG 변환에서 SVG에 넣은 이미지 형식
+  quality?: number;
+  structure: RasterStructure;
+  idPrefix: string;
+  rewriteIds: boolean;
+  total: number;
+  converted: number;
+  failed: number;
+  sharedFontFile?: string; // 모든 SVG가 참조하는 공유 서브셋 파일 이름
+  warnings?: string[]; // 결과 SVG의 호환성 경고 (SVG <image> 지원이 제한적인 형식 등)
+  files: BatchFileResult[];
+}
+
+export interface BatchConversion {
+  manifest: BatchManifest;
+  svgFiles: BatchOutputFile[];
+  fontFiles: EmojiFontFile[]; // 파일 이름 기준으로 중복 제거됨
+}
+
+export interface BatchOptions extends Omit<
+  ServerConverterOptions,
+  "sharedEmojis"
+> {
+  sharedFont?: boolean; // foreignObject 변환에서 이모지별 서브셋 대신 하나의 공유 서브셋 사용
+  rewriteIds?: boolean; // 결과 SVG마다 문서 전체의 id를 내용 해시 기반으로 다시 만들기
+  onFileConverted?: (result: BatchFileResult) => void;
+}
+
+// 모든 파일의 이모지 중 공유 폰트 서브셋에 담을 이모지
+// 파싱할 수 없는 파일은 건너뛰며, 실제 오류는 파일별 변환 단계에서 보고된다
+const collectSharedEmojis = (
+  files: BatchInputFile[],
+  style: EmojiStyle
+): string[] | undefined => {
+  const source = getEmojiSource(style);
+  if (source.kind !== "font") {
+    return undefined;
+  }
+
+  const emojis: string[] = [];
+  for (const file of files) {
+    try {
+      emojis.push(...collectEmoji(parseSvgDocument(file.content)));
+    } catch (_error) {
+      continue;
+    }
+  }
+  const shared = getSharedSubsetEmojis(source, emojis);
+  return shared.length > 0 ? shared : undefined;
+};
+
+// SVG 파일들의 이모지를 변환
+// 폰트를 한 번만 읽고 메모리를 아끼기 위해 파일을 하나씩 순서대로 변환한다
+export async function convertSvgBatch(
+  files: BatchInputFile[],
+  {
+    sharedFont = false,
+    rewriteIds = false,
+    onFileConverted,
+    ...options
+  }: BatchOptions
+): Promise<BatchConversion> {
+  const sharedEmojis =
+    sharedFont && options.type === "foreignObject"
+      ? collectSharedEmojis(files, options.style)
+      : undefined;
+  if (sharedEmojis) {
+    console.log(`Sharing one font subset for ${sharedEmojis.length} emoji`);
+  }
+  const convertOptions = createServerConvertOptions({
+    ...options,
+    sharedEmojis,
+    rewriteIds,
+  });
+  const outputPaths = new Set<string>();
+  const svgFiles: BatchOutputFile[] = [];
+  const fontFiles = new Map<string, EmojiFontFile>();
+  const results: BatchFileResult[] = [];
+
+  for (const file of files) {
+    let result: BatchFileResult;
+
+    try {
+      // 같은 이름의 결과 파일이 서로 덮어쓰지 않도록 확인
+      if (outputPaths.has(file.output)) {
+        throw new Error(`Duplicate output file name: ${file.output}`);
+      }
+      outputPaths.add(file.output);
+
+      const {
+        content,
+        fontFiles: fileFonts,
+        emojiSources,
+        rejected,
+      } = await convert(file.content, convertOptions);
+      svgFiles.push({ path: file.output, content });
+      for (const font of fileFonts) {
+        fontFiles.set(font.fileName, font);
+      }
+
+      result = {
+        input: file.input,
+        output: file.output,
+        bytes: Buffer.byteLength(content),
+        fontFiles: Array.from(new Set(fileFonts.map((font) => font.fileName))),
+        emojiSources,
+        rejected:
+          rejected.length > 0 ? formatRejectedContent(rejected) : undefined,
+      };
+    } catch (error) {
+      result = {
+        input: file.input,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    results.push(result);
+    onFileConverted?.(result);
+  }
+
+  const failed = results.filter((result) => result.error).length;
+  const formatWarning =
+    options.type === "png"
+      ? RASTER_FORMAT_INFO[options.format ?? DEFAULT_RASTER_FORMAT].warning
+      : undefined;
+  return {
+    manifest: {
+      type: options.type,
+      style: options.style,
+      styleChain: getEmojiStyleChain(options.style, options.fallbackStyles),
+      size: options.resolution ?? DEFAULT_PNG_RESOLUTION,
+      format: options.format ?? DEFAULT_RASTER_FORMAT,
+      quality: options.quality,
+      structure: options.structure ?? DEFAULT_RASTER_STRUCTURE,
+      idPrefix: options.idPrefix ?? DEFAULT_ID_PREFIX,
+      rewriteIds,
+      total: results.length,
+      converted: results.length - failed,
+      failed,
+      sharedFontFile: sharedEmojis
+        ? getSharedSubsetFileName(options.style, sharedEmojis)
+        : undefined,
+      warnings: formatWarning ? [formatWarning] : undefined,
+      files: results,
+    },
+    svgFiles,
+    fontFiles: Array.from(fontFiles.values()),
+  };
+}
@@ -0,0 +1,636 @@
+// 벡터 컬러 폰트(COLR/CPAL v0·v1, SVG-in-OT)에서 이모지 글리프를 꺼내
+// 폰트나 HTML 없이 그려지는 SVG <path>/<g> 요소로 변환하는 유틸리티
+// 출력 좌표는 폰트 단위(y축 위쪽)이며 펜 원점은 기준선 위의 0이다
+import zlib from "zlib";
+import { DOMParser, XMLSerializer } from "@xmldom/xmldom";
+import type { Font, Glyph } from "@pdf-lib/fontkit";
+import { getFileHash, withDiskCache } from "./disk-cache";
+import { getResidentFont } from "./font-registry";
+
+export type ColorGlyphFormat = "COLRv1" | "COLRv0" | "SVG" | "outline";
+
+// fontkit이 타입으로 노출하지 않는 내부 속성
+interface ColorRecord {
+  red: number;
+  green: number;
+  blue: number;
+  alpha: number;
+}
+
+export interface ColorFont extends Font {
+  directory: { tables: Record<string, { offset: number; length: number }> };
+  stream: { buffer: Uint8Array };
+  _getBaseGlyph(glyphId: number): Glyph | null;
+  COLR?: { baseGlyphRecord: { gid: number }[] };
+  CPAL?: { colorRecords: ColorRecord[]; colorRecordIndices: number[] };
+}
+
+// 이모지 시퀀스 하나를 벡터로 변환한 결과
+export interface VectorGlyphRun {
+  markup: string;
+  formats: ColorGlyphFormat[];
+  glyphIds: number[];
+  advanceWidth: number;
+  ascent: number;
+  descent: number;
+  unitsPerEm: number;
+}
+
+// 2x3 아핀 변환 행렬 [a, b, c, d, e, f]
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+// m1 ∘ m2 (m2를 먼저 적용)
+const multiply = (m1: Matrix, m2: Matrix): Matrix => [
+  m1[0] * m2[0] + m1[2] * m2[1],
+  m1[1] * m2[0] + m1[3] * m2[1],
+  m1[0] * m2[2] + m1[2] * m2[3],
+  m1[1] * m2[2] + m1[3] * m2[3],
+  m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+  m1[1] * m2[4] + m1[3] * m2[5] + m1[5],
+];
+
+// 중심점 기준 변환
+const aroundCenter = (matrix: Matrix, cx: number, cy: number): Matrix =>
+  multiply(multiply([1, 0, 0, 1, cx, cy], matrix), [1, 0, 0, 1, -cx, -cy]);
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+const formatMatrix = (matrix: Matrix): string =>
+  `matrix(${matrix.map(round).join(" ")})`;
+
+// 렌더링 중 공유하는 상태
+interface RenderContext {
+  font: ColorFont;
+  colr: DataView | null;
+  palette: ColorRecord[];
+  defs: string[];
+  idPrefix: string;
+  nextId: number;
+}
+
+const createId = (ctx: RenderContext, kind: string): string =>
+  `${ctx.idPrefix}_${kind}_${ctx.nextId++}`;
+
+// 폰트 원본 바이트에서 테이블 영역 읽기
+const readTable = (font: ColorFont, tag: string): DataView | null => {
+  const record = font.directory.tables[tag];
+  if (!record) {
+    return null;
+  }
+  const buffer = font.stream.buffer;
+  return new DataView(
+    buffer.buffer,
+    buffer.byteOffset + record.offset,
+    record.length
+  );
+};
+
+const readUint24 = (view: DataView, offset: number): number =>
+  (view.getUint8(offset) << 16) | view.getUint16(offset + 1);
+
+const readF2Dot14 = (view: DataView, offset: number): number =>
+  view.getInt16(offset) / 16384;
+
+const readFixed = (view: DataView, offset: number): number =>
+  view.getInt32(offset) / 65536;
+
+// CPAL 팔레트 색상을 SVG 채우기 속성으로 변환 (0xFFFF는 전경색)
+const colorAttributes = (
+  ctx: RenderContext,
+  paletteIndex: number,
+  alpha: number,
+  prefix: "fill" | "stop"
+): string => {
+  const record = ctx.palette[paletteIndex];
+  const colorName = prefix === "fill" ? "fill" : "stop-color";
+  if (paletteIndex === 0xffff || !record) {
+    return `${colorName}="currentColor"${
+      alpha < 1 ? ` ${prefix}-opacity="${round(alpha)}"` : ""
+    }`;
+  }
+
+  const hex = [record.red, record.green, record.blue]
+    .map((value) => value.toString(16).padStart(2, "0"))
+    .join("");
+  const opacity = (record.alpha / 255) * alpha;
+  return `${colorName}="#${hex}"${
+    opacity < 1 ? ` ${prefix}-opacity="${round(opacity)}"` : ""
+  }`;
+};
+
+// COLR v1 ColorLine을 <stop> 목록으로 변환
+const readColorLine = (
+  ctx: RenderContext,
+  offset: number,
+  variable: boolean
+): { spreadMethod: string; stops: string } => {
+  const view = ctx.colr!;
+  const extend = view.getUint8(offset);
+  const numStops = view.getUint16(offset + 1);
+  const stopSize = variable ? 10 : 6;
+
+  const stops: { offset: number; markup: string }[] = [];
+  for (let i = 0; i < numStops; i++) {
+    const stop = offset + 3 + i * stopSize;
+    const stopOffset = readF2Dot14(view, stop);
+    stops.push({
+      offset: stopOffset,
+      markup: `<stop offset="${round(stopOffset)}" ${colorAttributes(
+        ctx,
+        view.getUint16(stop + 2),
+        readF2Dot14(view, stop + 4),
+        "stop"
+      )}/>`,
+    });
+  }
+  stops.sort((a, b) => a.offset - b.offset);
+
+  return {
+    spreadMethod: ["pad", "repeat", "reflect"][extend] || "pad",
+    stops: stops.map((stop) => stop.markup).join(""),
+  };
+};
+
+// 변환 페인트(PaintTransform ~ PaintVarSkewAroundCenter)의 행렬과 자식 페인트 읽기
+const readTransformPaint = (
+  view: DataView,
+  offset: number
+): { matrix: Matrix; child: number } | null => {
+  const format = view.getUint8(offset);
+  const child = offset + readUint24(view, offset + 1);
+  const f2 = (at: number) => readF2Dot14(view, offset + at);
+  const fword = (at: number) => view.getInt16(offset + at);
+
+  switch (format) {
+    case 12:
+    case 13: {
+      const transform = offset + readUint24(view, offset + 4);
+      const matrix = [0, 4, 8, 12, 16, 20].map((at) =>
+        readFixed(view, transform + at)
+      ) as Matrix;
+      return { matrix, child };
+    }
+    case 14:
+    case 15:
+      return { matrix: [1, 0, 0, 1, fword(4), fword(6)], child };
+    case 16:
+    case 17:
+      return { matrix: [f2(4), 0, 0, f2(6), 0, 0], child };
+    case 18:
+    case 19:
+      return {
+        matrix: aroundCenter([f2(4), 0, 0, f2(6), 0, 0], fword(8), fword(10)),
+        child,
+      };
+    case 20:
+    case 21:
+      return { matrix: [f2(4), 0, 0, f2(4), 0, 0], child };
+    case 22:
+    case 23:
+      return {
+        matrix: aroundCenter([f2(4), 0, 0, f2(4), 0, 0], fword(6), fword(8)),
+        child,
+      };
+    case 24:
+    case 25:
+    case 26:
+    case 27: {
+      const angle = f2(4) * Math.PI;
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      const rotation: Matrix = [cos, sin, -sin, cos, 0, 0];
+      return {
+        matrix:
+          format >= 26 ? aroundCenter(rotation, fword(6), fword(8)) : rotation,
+        child,
+      };
+    }
+    case 28:
+    case 29:
+    case 30:
+    case 31: {
+      const skew: Matrix = [
+        1,
+        Math.tan(f2(6) * Math.PI),
+        -Math.tan(f2(4) * Math.PI),
+        1,
+        0,
+        0,
+      ];
+      return {
+        matrix: format >= 30 ? aroundCenter(skew, fword(8), fword(10)) : skew,
+        child,
+      };
+    }
+    default:
+      return null;
+  }
+};
+
+// 채우기 페인트(단색, 그라디언트)를 fill 속성으로 변환
+// 변환 페인트는 그라디언트 변환으로 누적하며, 채우기로 표현할 수 없으면 null
+const resolveFill = (
+  ctx: RenderContext,
+  offset: number,
+  matrix: Matrix
+): string | null => {
+  const view = ctx.colr!;
+  const format = view.getUint8(offset);
+  const fword = (at: number) => view.getInt16(offset + at);
+  const gradientTransform =
+    matrix === IDENTITY ? "" : ` gradientTransform="${formatMatrix(matrix)}"`;
+
+  switch (format) {
+    case 2:
+    case 3:
+      return colorAttributes(
+        ctx,
+        view.getUint16(offset + 1),
+        readF2Dot14(view, offset + 3),
+        "fill"
+      );
+    case 4:
+    case 5: {
+      const { spreadMethod, stops } = readColorLine(
+        ctx,
+        offset + readUint24(view, offset + 1),
+        format === 5
+      );
+      // p0→p1 방향을 p0→p2에 수직이 되도록 투영 (COLR v1 선형 그라디언트 정의)
+      const [x0, y0, x1, y1, x2, y2] = [4, 6, 8, 10, 12, 14].map(fword);
+      const nx = -(y2 - y0);
+      const ny = x2 - x0;
+      const length = nx * nx + ny * ny;
+      const projection = length
+        ? ((x1 - x0) * nx + (y1 - y0) * ny) / length
+        : 1;
+      const id = createId(ctx, "linear");
+      ctx.defs.push(
+        `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${x0}" y1="${y0}" x2="${round(
+          x0 + nx * projection
+        )}" y2="${round(
+          y0 + ny * projection
+        )}" spreadMethod="${spreadMethod}"${gradientTransform}>${stops}</linearGradient>`
+      );
+      return `fill="url(#${id})"`;
+    }
+    case 6:
+    case 7: {
+      const { spreadMethod, stops } = readColorLine(
+        ctx,
+        offset + readUint24(view, offset + 1),
+        format === 7
+      );
+      const id = createId(ctx, "radial");
+      ctx.defs.push(
+        `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" fx="${fword(
+          4
+        )}" fy="${fword(6)}" fr="${view.getUint16(offset + 8)}" cx="${fword(
+          10
+        )}" cy="${fword(12)}" r="${view.getUint16(
+          offset + 14
+        )}" spreadMethod="${spreadMethod}"${gradientTransform}>${stops}</radialGradient>`
+      );
+      return `fill="url(#${id})"`;
+    }
+    case 8:
+    case 9: {
+      // SVG에는 원뿔형 그라디언트가 없으므로 첫 번째 색상으로 대체
+      const colorLine = offset + readUint24(view, offset + 1);
+      return colorAttributes(
+        ctx,
+        view.getUint16(colorLine + 5),
+        readF2Dot14(view, colorLine + 7),
+        "fill"
+      );
+    }
+    default: {
+      const transform = readTransformPaint(view, offset);
+      return transform
+        ? resolveFill(ctx, transform.child, multiply(matrix, transform.matrix))
+        : null;
+    }
+  }
+};
+
+// COLR v1 BaseGlyphList에서 글리프의 루트 페인트 찾기
+const findBasePaint = (ctx: RenderContext, glyphId: number): number | null => {
+  const view = ctx.colr;
+  if (!view || view.getUint16(0) < 1) {
+    return null;
+  }
+  const listOffset = view.getUint32(14);
+  if (!listOffset) {
+    return null;
+  }
+
+  let low = 0;
+  let high = view.getUint32(listOffset) - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const record = listOffset + 4 + mid * 6;
+    const gid = view.getUint16(record);
+    if (gid === glyphId) {
+      return listOffset + view.getUint32(record + 2);
+    }
+    if (gid < glyphId) {
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return null;
+};
+
+const glyphPath = (ctx: RenderContext, glyphId: number): string =>
+  ctx.font._getBaseGlyph(glyphId)?.path.toSVG() || "";
+
+// COLR v1 페인트 그래프를 SVG 요소로 변환
+// clip이 주어지면 채우기 페인트는 해당 영역을 덮는 사각형으로 그린다
+const renderPaint = (
+  ctx: RenderContext,
+  offset: number,
+  clip?: Glyph["bbox"]
+): string => {
+  const view = ctx.colr!;
+  const format = view.getUint8(offset);
+
+  if (clip) {
+    const fill = resolveFill(ctx, offset, IDENTITY);
+    if (fill) {
+      return `<rect x="${clip.minX}" y="${clip.minY}" width="${
+        clip.maxX - clip.minX
+      }" height="${clip.maxY - clip.minY}" ${fill}/>`;
+    }
+  }
+
+  switch (format) {
+    case 1: {
+      const numLayers = view.getUint8(offset + 1);
+      const firstLayer = view.getUint32(offset + 2);
+      const layerList = view.getUint32(18);
+      const layers: string[] = [];
+      for (let i = firstLayer; i < firstLayer + numLayers; i++) {
+        const paint = layerList + view.getUint32(layerList + 4 + i * 4);
+        layers.push(renderPaint(ctx, paint, clip));
+      }
+      return `<g>${layers.join("")}</g>`;
+    }
+    case 10: {
+      const paint = offset + readUint24(view, offset + 1);
+      const glyphId = view.getUint16(offset + 4);
+      const d = glyphPath(ctx, glyphId);
+      if (!d) {
+        return "";
+      }
+
+      const fill = resolveFill(ctx, paint, IDENTITY);
+      if (fill) {
+        return `<path d="${d}" ${fill}/>`;
+      }
+
+      // 채우기로 표현할 수 없는 페인트는 글리프 외곽선으로 잘라서 그림
+      const clipId = createId(ctx, "clip");
+      ctx.defs.push(`<clipPath id="${clipId}"><path d="${d}"/></clipPath>`);
+      const bbox = ctx.font._getBaseGlyph(glyphId)!.bbox;
+      return `<g clip-path="url(#${clipId})">${renderPaint(
+        ctx,
+        paint,
+        bbox
+      )}</g>`;
+    }
+    case 11: {
+      const basePaint = findBasePaint(ctx, view.getUint16(offset + 1));
+      return basePaint === null ? "" : renderPaint(ctx, basePaint, clip);
+    }
+    case 32: {
+      // 합성 모드는 SVG로 옮기기 어려워 source-over로 근사
+      const source = offset + readUint24(view, offset + 1);
+      const backdrop = offset + readUint24(view, offset + 5);
+      return `<g>${renderPaint(ctx, backdrop, clip)}${renderPaint(
+        ctx,
+        source,
+        clip
+      )}</g>`;
+    }
+    default: {
+      const transform = readTransformPaint(view, offset);
+      if (!transform) {
+        return "";
+      }
+      return `<g transform="${formatMatrix(transform.matrix)}">${renderPaint(
+        ctx,
+        transform.child,
+        clip
+      )}</g>`;
+    }
+  }
+};
+
+// COLR v0 레이어 렌더링
+const renderColrV0 = (ctx: RenderContext, glyphId: number): string | null => {
+  const hasBaseRecord = ctx.font.COLR?.baseGlyphRecord?.some(
+    (record) => record.gid === glyphId
+  );
+  if (!hasBaseRecord) {
+    return null;
+  }
+
+  const layers = (
+    ctx.font.getGlyph(glyphId) as Glyph & {
+      layers: { glyph: Glyph; color?: ColorRecord }[];
+    }
+  ).layers;
+  return layers
+    .map(({ glyph, color }) => {
+      const d = glyph.path.toSVG();
+      if (!d) {
+        return "";
+      }
+      if (!color) {
+        return `<path d="${d}" fill="currentColor"/>`;
+      }
+      const hex = [color.red, color.green, color.blue]
+        .map((value) => value.toString(16).padStart(2, "0"))
+        .join("");
+      const opacity = color.alpha / 255;
+      return `<path d="${d}" fill="#${hex}"${
+        opacity < 1 ? ` fill-opacity="${round(opacity)}"` : ""
+      }/>`;
+    })
+    .join("");
+};
+
+// SVG-in-OT 문서에서 글리프 요소 추출
+const renderSvgDocument = (
+  ctx: RenderContext,
+  glyphId: number
+): string | null => {
+  const view = readTable(ctx.font, "SVG ");
+  if (!view) {
+    return null;
+  }
+
+  const listOffset = view.getUint32(2);
+  const numEntries = view.getUint16(listOffset);
+  for (let i = 0; i < numEntries; i++) {
+    const entry = listOffset + 2 + i * 12;
+    if (
+      glyphId < view.getUint16(entry) ||
+      glyphId > view.getUint16(entry + 2)
+    ) {
+      continue;
+    }
+
+    const start = listOffset + view.getUint32(entry + 4);
+    let data = Buffer.from(
+      view.buffer,
+      view.byteOffset + start,
+      view.getUint32(entry + 8)
+    );
+    // gzip 압축된 문서 처리
+    if (data[0] === 0x1f && data[1] === 0x8b) {
+      data = zlib.gunzipSync(data);
+    }
+
+    const doc = new DOMParser().parseFromString(
+      data.toString("utf8"),
+      "image/svg+xml"
+    );
+    const serializer = new XMLSerializer();
+    const elements = Array.from(doc.getElementsByTagName("*"));
+    const glyph = elements.find(
+      (element) => element.getAttribute("id") === `glyph${glyphId}`
+    );
+    if (!glyph) {
+      return null;
+    }
+
+    const defs = Array.from(doc.getElementsByTagName("defs"))
+      .map((element) => serializer.serializeToString(element))
+      .join("");
+    // SVG-in-OT는 y축이 아래쪽이므로 뒤집어서 배치
+    return `<g transform="scale(1 -1)">${defs}${serializer.serializeToString(
+      glyph
+    )}</g>`;
+  }
+
+  return null;
+};
+
+// 글리프 하나를 사용 가능한 가장 풍부한 컬러 형식으로 렌더링
+const renderColorGlyph = (
+  ctx: RenderContext,
+  glyphId: number
+): { markup: string; format: ColorGlyphFormat } | null => {
+  const basePaint = findBasePaint(ctx, glyphId);
+  if (basePaint !== null) {
+    return { markup: renderPaint(ctx, basePaint), format: "COLRv1" };
+  }
+
+  const colrV0 = renderColrV0(ctx, glyphId);
+  if (colrV0) {
+    return { markup: colrV0, format: "COLRv0" };
+  }
+
+  const svg = renderSvgDocument(ctx, glyphId);
+  if (svg) {
+    return { markup: svg, format: "SVG" };
+  }
+
+  const d = glyphPath(ctx, glyphId);
+  return d
+    ? { markup: `<path d="${d}" fill="currentColor"/>`, format: "outline" }
+    : null;
+};
+
+// 벡터 컬러 폰트 로드 (COLR/CPAL 또는 SVG-in-OT 테이블이 있는 폰트)
+// 폰트 레지스트리에 상주하는 폰트를 사용하므로 파일은 프로세스마다 한 번만 파싱된다
+export const loadColorFont = (fontPath: string): ColorFont =>
+  getResidentFont(fontPath).font as ColorFont;
+
+// 이모지 시퀀스를 셰이핑하고 각 글리프를 벡터 요소로 변환
+export function renderEmojiVector(
+  font: ColorFont,
+  emoji: string
+): VectorGlyphRun {
+  const cpal = font.CPAL;
+  const paletteStart = cpal?.colorRecordIndices?.[0] ?? 0;
+  const ctx: RenderContext = {
+    font,
+    colr: readTable(font, "COLR"),
+    palette: cpal ? cpal.colorRecords.slice(paletteStart) : [],
+    defs: [],
+    idPrefix: `emoji_${Array.from(emoji)
+      .map((char) => char.codePointAt(0)!.toString(16))
+      .join("_")}`,
+    nextId: 0,
+  };
+
+  const run = font.layout(emoji);
+  const parts: string[] = [];
+  const formats: ColorGlyphFormat[] = [];
+  const glyphIds: number[] = [];
+  let penX = 0;
+
+  run.glyphs.forEach((glyph, index) => {
+    const position = run.positions[index];
+    // 변형 선택자 등 폭이 없는 .notdef는 건너뜀
+    if (glyph.id === 0 && position.xAdvance === 0) {
+      return;
+    }
+    if (glyph.id === 0) {
+      throw new Error(`Glyph not found for emoji: ${emoji}`);
+    }
+
+    const rendered = renderColorGlyph(ctx, glyph.id);
+    if (!rendered) {
+      throw new Error(`No vector data for glyph ${glyph.id}`);
+    }
+
+    parts.push(
+      `<g transform="translate(${round(penX + position.xOffset)} ${round(
+        position.yOffset
+      )})">${rendered.markup}</g>`
+    );
+    formats.push(rendered.format);
+    glyphIds.push(glyph.id);
+    penX += position.xAdvance;
+  });
+
+  if (parts.length === 0) {
+    throw new Error(`Glyph not found for emoji: ${emoji}`);
+  }
+
+  const defs = ctx.defs.length > 0 ? `<defs>${ctx.defs.join("")}</defs>` : "";
+  return {
+    markup: `${defs}${parts.join("")}`,
+    formats,
+    glyphIds,
+    advanceWidth: penX,
+    ascent: font.ascent,
+    descent: font.descent,
+    unitsPerEm: font.unitsPerEm,
+  };
+}
+
+// 디스크 캐시를 거쳐 이모지 벡터 런 가져오기
+// 캐시에 없을 때만 getFont로 폰트를 읽어 변환한다
+export async function getEmojiVector(
+  fontPath: string,
+  emoji: string,
+  getFont: () => ColorFont = () => loadColorFont(fontPath)
+): Promise<{ vector: VectorGlyphRun; cacheHit: boolean }> {
+  const { data, cacheHit } = await withDiskCache(
+    {
+      kind: "vector",
+      emoji,
+      font: getFileHash(fontPath),
+      format: "svg-markup",
+    },
+    async () => Buffer.from(JSON.stringify(renderEmojiVector(getFont(), emoji)))
+  );
+  return { vector: JSON.parse(data.toString("utf8")), cacheHit };
+}
@@ -0,0 +1,603 @@
+// 컬러 이모지 테이블(CBDT/CBLC, sbix, COLR/CPAL, SVG)을 읽고 서브셋하는 유틸리티
+// 서브셋 폰트가 원본과 같은 컬러 글리프를 그리도록 남긴 글리프의 이미지와 레이어만 새 글리프 ID로 옮긴다
+import zlib from "zlib";
+import { TableWriter, type SfntTables } from "./sfnt";
+
+export type ColorTableFormat = "CBDT" | "sbix" | "COLR" | "SVG";
+
+// CBLC 인덱스에서 찾은 글리프 이미지 위치
+interface BitmapImage {
+  indexFormat: number;
+  imageFormat: number;
+  offset: number; // CBDT 안의 위치
+  length: number;
+  metrics?: Buffer; // 인덱스 형식 2, 5의 공통 bigGlyphMetrics (8바이트)
+}
+
+// CBLC의 크기(strike)별 글리프 이미지
+interface BitmapStrike {
+  sizeRecord: Buffer; // BitmapSize 레코드 (48바이트)
+  images: Map<number, BitmapImage>;
+}
+
+const BITMAP_SIZE_LENGTH = 48;
+
+// CBLC 인덱스를 글리프별 이미지 위치로 펼치기 (인덱스 형식 1~5)
+const readBitmapStrikes = (cblc: Buffer): BitmapStrike[] => {
+  const numSizes = cblc.readUInt32BE(4);
+  const strikes: BitmapStrike[] = [];
+
+  for (let size = 0; size < numSizes; size++) {
+    const record = 8 + size * BITMAP_SIZE_LENGTH;
+    const arrayOffset = cblc.readUInt32BE(record);
+    const numSubtables = cblc.readUInt32BE(record + 8);
+    const images = new Map<number, BitmapImage>();
+
+    for (let i = 0; i < numSubtables; i++) {
+      const entry = arrayOffset + i * 8;
+      const first = cblc.readUInt16BE(entry);
+      const last = cblc.readUInt16BE(entry + 2);
+      const subtable = arrayOffset + cblc.readUInt32BE(entry + 4);
+      const indexFormat = cblc.readUInt16BE(subtable);
+      const imageFormat = cblc.readUInt16BE(subtable + 2);
+      const imageDataOffset = cblc.readUInt32BE(subtable + 4);
+      const add = (
+        gid: number,
+        offset: number,
+        length: number,
+        metrics?: Buffer
+      ) => {
+        if (length > 0) {
+          images.set(gid, {
+            indexFormat,
+            imageFormat,
+            offset: imageDataOffset + offset,
+            length,
+            metrics,
+          });
+        }
+      };
+
+      if (indexFormat === 1 || indexFormat === 3) {
+        const width = indexFormat === 1 ? 4 : 2;
+        const read = (index: number) =>
+          width === 4
+            ? cblc.readUInt32BE(subtable + 8 + index * 4)
+            : cblc.readUInt16BE(subtable + 8 + index * 2);
+        for (let gid = first; gid <= last; gid++) {
+          const start = read(gid - first);
+          add(gid, start, read(gid - first + 1) - start);
+        }
+      } else if (indexFormat === 2 || indexFormat === 5) {
+        const imageSize = cblc.readUInt32BE(subtable + 8);
+        const metrics = cblc.subarray(subtable + 12, subtable + 20);
+        const glyphs =
+          indexFormat === 2
+            ? Array.from({ length: last - first + 1 }, (_, i) => first + i)
+            : Array.from({ length: cblc.readUInt32BE(subtable + 20) }, (_, i) =>
+                cblc.readUInt16BE(subtable + 24 + i * 2)
+              );
+        glyphs.forEach((gid, index) =>
+          add(gid, index * imageSize, imageSize, metrics)
+        );
+      } else if (indexFormat === 4) {
+        const numGlyphs = cblc.readUInt32BE(subtable + 8);
+        for (let i = 0; i < numGlyphs; i++) {
+          const pair = subtable + 12 + i * 4;
+          const start = cblc.readUInt16BE(pair + 2);
+          add(
+            cblc.readUInt16BE(pair),
+            start,
+            cblc.readUInt16BE(pair + 6) - start
+          );
+        }
+      }
+    }
+
+    strikes.push({
+      sizeRecord: cblc.subarray(record, record + BITMAP_SIZE_LENGTH),
+      images,
+    });
+  }
+  return strikes;
+};
+
+// CBDT/CBLC 서브셋: 글리프마다 인덱스 하위 테이블 하나 (형식 1, 또는 공통 메트릭이 있으면 형식 2)
+const subsetBitmapTables = (
+  cblc: Buffer,
+  cbdt: Buffer,
+  glyphMap: Map<number, number>,
+  rendered: Set<number>
+): { CBLC: Buffer; CBDT: Buffer } => {
+  const strikes = readBitmapStrikes(cblc);
+  const data = new TableWriter();
+  data.bytes(cbdt.subarray(0, 4)); // 버전
+
+  const index = new TableWriter();
+  index.bytes(cblc.subarray(0, 4)).uint32(strikes.length);
+  const recordsStart = index.offset;
+  strikes.forEach((strike) => index.bytes(strike.sizeRecord));
+
+  strikes.forEach((strike, strikeIndex) => {
+    const glyphs = Array.from(strike.images.entries())
+      .filter(([gid]) => rendered.has(gid) && glyphMap.has(gid))
+      .map(([gid, image]) => ({ gid: glyphMap.get(gid)!, image }))
+      .sort((a, b) => a.gid - b.gid);
+
+    const arrayStart = index.offset;
+    glyphs.forEach(() => index.uint32(0).uint32(0));
+    glyphs.forEach(({ gid, image }, i) => {
+      const entry = arrayStart + i * 8;
+      index.patch(entry, gid);
+      index.patch(entry + 2, gid);
+      index.patch32(entry + 4, index.offset - arrayStart);
+
+      const imageDataOffset = data.offset;
+      data.bytes(cbdt.subarray(image.offset, image.offset + image.length));
+      if (image.metrics) {
+        index.uint16(2).uint16(image.imageFormat).uint32(imageDataOffset);
+        index.uint32(image.length).bytes(image.metrics);
+      } else {
+        index.uint16(1).uint16(image.imageFormat).uint32(imageDataOffset);
+        index.uint32(0).uint32(image.length);
+      }
+    });
+
+    // BitmapSize 레코드의 인덱스 위치와 글리프 범위 갱신
+    const record = recordsStart + strikeIndex * BITMAP_SIZE_LENGTH;
+    index.patch32(record, arrayStart);
+    index.patch32(record + 4, index.offset - arrayStart);
+    index.patch32(record + 8, glyphs.length);
+    index.patch(record + 40, glyphs.length > 0 ? glyphs[0].gid : 0);
+    index.patch(
+      record + 42,
+      glyphs.length > 0 ? glyphs[glyphs.length - 1].gid : 0
+    );
+  });
+
+  return { CBLC: index.toBuffer(), CBDT: data.toBuffer() };
+};
+
+// sbix 서브셋: 크기(strike)마다 새 글리프 순서대로 이미지 데이터 복사
+const subsetSbix = (
+  sbix: Buffer,
+  numGlyphs: number,
+  keep: number[],
+  rendered: Set<number>
+): Buffer => {
+  const numStrikes = sbix.readUInt32BE(4);
+  const writer = new TableWriter();
+  writer.bytes(sbix.subarray(0, 4)).uint32(numStrikes);
+  const strikeOffsets = Array.from({ length: numStrikes }, () => {
+    const position = writer.offset;
+    writer.uint32(0);
+    return position;
+  });
+
+  for (let i = 0; i < numStrikes; i++) {
+    const strike = sbix.readUInt32BE(8 + i * 4);
+    const glyphOffset = (gid: number) =>
+      sbix.readUInt32BE(strike + 4 + gid * 4);
+
+    const strikeStart = writer.offset;
+    writer.patch32(strikeOffsets[i], strikeStart);
+    writer.bytes(sbix.subarray(strike, strike + 4)); // ppem, ppi
+    const offsetsStart = writer.offset;
+    keep.forEach(() => writer.uint32(0));
+    writer.uint32(0);
+
+    keep.forEach((gid, newGid) => {
+      writer.patch32(offsetsStart + newGid * 4, writer.offset - strikeStart);
+      if (rendered.has(gid) && gid < numGlyphs) {
+        writer.bytes(
+          sbix.subarray(
+            strike + glyphOffset(gid),
+            strike + glyphOffset(gid + 1)
+          )
+        );
+      }
+    });
+    writer.patch32(offsetsStart + keep.length * 4, writer.offset - strikeStart);
+  }
+  return writer.toBuffer();
+};
+
+// COLR 버전 0 레코드
+const readColrV0 = (colr: Buffer) => {
+  const numBase = colr.readUInt16BE(2);
+  const baseOffset = colr.readUInt32BE(4);
+  const layerOffset = colr.readUInt32BE(8);
+  const bases = new Map<number, { firstLayer: number; numLayers: number }>();
+  for (let i = 0; i < numBase; i++) {
+    const record = baseOffset + i * 6;
+    bases.set(colr.readUInt16BE(record), {
+      firstLayer: colr.readUInt16BE(record + 2),
+      numLayers: colr.readUInt16BE(record + 4),
+    });
+  }
+  const layer = (index: number) => ({
+    gid: colr.readUInt16BE(layerOffset + index * 4),
+    paletteIndex: colr.readUInt16BE(layerOffset + index * 4 + 2),
+  });
+  return { bases, layer };
+};
+
+// COLR 버전 1의 페인트 그래프가 있는 글리프
+const readColrV1Glyphs = (colr: Buffer): Set<number> => {
+  const glyphs = new Set<number>();
+  if (colr.readUInt16BE(0) < 1) {
+    return glyphs;
+  }
+  const listOffset = colr.readUInt32BE(14);
+  if (listOffset === 0) {
+    return glyphs;
+  }
+  const count = colr.readUInt32BE(listOffset);
+  for (let i = 0; i < count; i++) {
+    glyphs.add(colr.readUInt16BE(listOffset + 4 + i * 6));
+  }
+  return glyphs;
+};
+
+// COLR 버전 0 글리프를 그리는 데 필요한 레이어 글리프
+export const getColorLayerGlyphs = (
+  tables: SfntTables,
+  glyphIds: number[]
+): number[] => {
+  const colr = tables.get("COLR");
+  if (!colr) {
+    return [];
+  }
+  const { bases, layer } = readColrV0(colr);
+  return glyphIds.flatMap((gid) => {
+    const base = bases.get(gid);
+    return base
+      ? Array.from(
+          { length: base.numLayers },
+          (_, i) => layer(base.firstLayer + i).gid
+        )
+      : [];
+  });
+};
+
+// COLR 버전 0 서브셋 (버전 1 페인트 그래프는 옮기지 않음)
+const subsetColrV0 = (
+  colr: Buffer,
+  glyphMap: Map<number, number>,
+  rendered: Set<number>
+): Buffer | null => {
+  const { bases, layer } = readColrV0(colr);
+  const glyphs = Array.from(bases.entries())
+    .filter(([gid]) => rendered.has(gid) && glyphMap.has(gid))
+    .map(([gid, base]) => ({ gid: glyphMap.get(gid)!, base }))
+    .sort((a, b) => a.gid - b.gid);
+  if (glyphs.length === 0) {
+    return null;
+  }
+
+  const layers: { gid: number; paletteIndex: number }[] = [];
+  const writer = new TableWriter();
+  const numLayers = glyphs.reduce((sum, { base }) => sum + base.numLayers, 0);
+  writer
+    .uint16(0)
+    .uint16(glyphs.length)
+    .uint32(14)
+    .uint32(14 + glyphs.length * 6)
+    .uint16(numLayers);
+  glyphs.forEach(({ gid, base }) => {
+    writer.uint16(gid).uint16(layers.length).uint16(base.numLayers);
+    for (let i = 0; i < base.numLayers; i++) {
+      const record = layer(base.firstLayer + i);
+      layers.push({
+        gid: glyphMap.get(record.gid) ?? 0,
+        paletteIndex: record.paletteIndex,
+      });
+    }
+  });
+  layers.forEach(({ gid, paletteIndex }) =>
+    writer.uint16(gid).uint16(paletteIndex)
+  );
+  return writer.toBuffer();
+};
+
+// SVG 문서 목록 (글리프 범위와 문서 데이터)
+const readSvgDocuments = (svg: Buffer) => {
+  const listOffset = svg.readUInt32BE(2);
+  const count = svg.readUInt16BE(listOffset);
+  return Array.from({ length: count }, (_, i) => {
+    const entry = listOffset + 2 + i * 12;
+    const offset = listOffset + svg.readUInt32BE(entry + 4);
+    return {
+      start: svg.readUInt16BE(entry),
+      end: svg.readUInt16BE(entry + 2),
+      data: svg.subarray(offset, offset + svg.readUInt32BE(entry + 8)),
+    };
+  });
+};
+
+// SVG 문서 안에서 id가 있는 요소의 위치 (여러 글리프가 defs를 공유하는 문서에서 필요한 부분만 꺼내기 위해)
+const indexSvgElements = (text: string) => {
+  const elements = new Map<string, { start: number; end: number }>();
+  const stack: { id?: string; start: number }[] = [];
+  const tagPattern = /<(\/?)([\w:-]+)([^>]*?)(\/?)>/g;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(text))) {
+    const [source, closing, , attributes, selfClosing] = match;
+    const end = match.index + source.length;
+    if (closing) {
+      const element = stack.pop();
+      if (element?.id) {
+        elements.set(element.id, { start: element.start, end });
+      }
+      continue;
+    }
+    const id = /\sid="([^"]+)"/.exec(attributes)?.[1];
+    if (selfClosing) {
+      if (id) {
+        elements.set(id, { start: match.index, end });
+      }
+    } else {
+      stack.push({ id, start: match.index });
+    }
+  }
+  return elements;
+};
+
+// 글리프 하나만 그리는 SVG 문서 만들기
+// 글리프 요소(id="glyphN")와 그 요소가 href, url()로 참조하는 요소만 남기고 글리프 id를 새 ID로 바꾼다
+const extractSvgGlyph = (
+  text: string,
+  elements: Map<string, { start: number; end: number }>,
+  gid: number,
+  newGid: number
+): string | null => {
+  const glyph = elements.get(`glyph${gid}`);
+  if (!glyph) {
+    return null;
+  }
+
+  const referenced = new Map<string, { start: number; end: number }>();
+  const pending = [text.slice(glyph.start, glyph.end)];
+  while (pending.length > 0) {
+    const source = pending.pop()!;
+    for (const [, id] of Array.from(
+      source.matchAll(/(?:href="#|url\(#)([^")]+)/g)
+    )) {
+      const element = elements.get(id);
+      if (element && !referenced.has(id)) {
+        referenced.set(id, element);
+        pending.push(text.slice(element.start, element.end));
+      }
+    }
+  }
+
+  // 다른 참조 요소 안에 들어 있는 요소는 바깥 요소와 함께 복사되므로 제외
+  const spans = Array.from(referenced.values()).sort(
+    (a, b) => a.start - b.start
+  );
+  const defs = spans
+    .filter(
+      (span) =>
+        !spans.some(
+          (other) =>
+            other !== span && other.start <= span.start && other.end >= span.end
+        )
+    )
+    .map(({ start, end }) => text.slice(start, end))
+    .join("");
+  const root = /<svg\b[^>]*>/.exec(text)?.[0] ?? "<svg>";
+  const glyphSource = text
+    .slice(glyph.start, glyph.end)
+    .replace(`id="glyph${gid}"`, `id="glyph${newGid}"`);
+  return `${root}${defs ? `<defs>${defs}</defs>` : ""}${glyphSource}</svg>`;
+};
+
+// SVG 서브셋: 글리프마다 문서 하나, 문서 안의 글리프 id를 새 글리프 ID로 바꿈
+const subsetSvg = (
+  svg: Buffer,
+  glyphMap: Map<number, number>,
+  rendered: Set<number>
+): Buffer | null => {
+  const documents = readSvgDocuments(svg);
+  // 같은 문서를 여러 글리프가 공유하면 한 번만 풀고 색인
+  const parsed = new Map<
+    Buffer,
+    { text: string; elements: ReturnType<typeof indexSvgElements> }
+  >();
+  const glyphs = Array.from(rendered)
+    .filter((gid) => glyphMap.has(gid))
+    .flatMap((gid) => {
+      const document = documents.find(
+        ({ start, end }) => gid >= start && gid <= end
+      );
+      if (!document) {
+        return [];
+      }
+      let entry = parsed.get(document.data);
+      if (!entry) {
+        // gzip으로 압축된 문서는 풀어서 저장
+        const text = (
+          document.data[0] === 0x1f && document.data[1] === 0x8b
+            ? zlib.gunzipSync(document.data)
+            : document.data
+        ).toString("utf8");
+        entry = { text, elements: indexSvgElements(text) };
+        parsed.set(document.data, entry);
+      }
+      const newGid = glyphMap.get(gid)!;
+      const glyphDocument = extractSvgGlyph(
+        entry.text,
+        entry.elements,
+        gid,
+        newGid
+      );
+      return glyphDocument
+        ? [{ gid: newGid, data: Buffer.from(glyphDocument, "utf8") }]
+        : [];
+    })
+    .sort((a, b) => a.gid - b.gid);
+  if (glyphs.length === 0) {
+    return null;
+  }
+
+  const writer = new TableWriter();
+  writer.uint16(0).uint32(10).uint32(0);
+  writer.uint16(glyphs.length);
+  let offset = 2 + glyphs.length * 12;
+  glyphs.forEach(({ gid, data }) => {
+    writer.uint16(gid).uint16(gid).uint32(offset).uint32(data.length);
+    offset += data.length;
+  });
+  glyphs.forEach(({ data }) => writer.bytes(data));
+  return writer.toBuffer();
+};
+
+// 서브셋 폰트에 넣을 컬러 테이블
+export const subsetColorTables = (
+  tables: SfntTables,
+  glyphMap: Map<number, number>,
+  rendered: Set<number>
+): SfntTables => {
+  const output: SfntTables = new Map();
+  const keep = Array.from(glyphMap.keys());
+
+  const cblc = tables.get("CBLC");
+  const cbdt = tables.get("CBDT");
+  if (cblc && cbdt) {
+    const bitmap = subsetBitmapTables(cblc, cbdt, glyphMap, rendered);
+    output.set("CBLC", bitmap.CBLC);
+    output.set("CBDT", bitmap.CBDT);
+  }
+
+  const sbix = tables.get("sbix");
+  if (sbix) {
+    const numGlyphs = tables.get("maxp")!.readUInt16BE(4);
+    output.set("sbix", subsetSbix(sbix, numGlyphs, keep, rendered));
+  }
+
+  const colr = tables.get("COLR");
+  const cpal = tables.get("CPAL");
+  if (colr && cpal) {
+    const subset = subsetColrV0(colr, glyphMap, rendered);
+    if (subset) {
+      output.set("COLR", subset);
+      output.set("CPAL", cpal);
+    }
+  }
+
+  const svg = tables.get("SVG ");
+  if (svg) {
+    const subset = subsetSvg(svg, glyphMap, rendered);
+    if (subset) {
+      output.set("SVG ", subset);
+    }
+  }
+
+  return output;
+};
+
+// 글리프에 들어 있는 컬러 데이터 형식 (없으면 빈 배열)
+export const getColorGlyphFormats = (
+  tables: SfntTables,
+  gid: number
+): ColorTableFormat[] => {
+  const formats: ColorTableFormat[] = [];
+
+  const cblc = tables.get("CBLC");
+  if (
+    cblc &&
+    tables.has("CBDT") &&
+    readBitmapStrikes(cblc).some((strike) => strike.images.has(gid))
+  ) {
+    formats.push("CBDT");
+  }
+
+  const sbix = tables.get("sbix");
+  if (sbix) {
+    const numStrikes = sbix.readUInt32BE(4);
+    for (let i = 0; i < numStrikes; i++) {
+      const strike = sbix.readUInt32BE(8 + i * 4);
+      const start = sbix.readUInt32BE(strike + 4 + gid * 4);
+      if (sbix.readUInt32BE(strike + 8 + gid * 4) > start) {
+        formats.push("sbix");
+        break;
+      }
+    }
+  }
+
+  const colr = tables.get("COLR");
+  if (
+    colr &&
+    tables.has("CPAL") &&
+    (readColrV0(colr).bases.has(gid) || readColrV1Glyphs(colr).has(gid))
+  ) {
+    formats.push("COLR");
+  }
+
+  const svg = tables.get("SVG ");
+  if (
+    svg &&
+    readSvgDocuments(svg).some(({ start, end }) => gid >= start && gid <= end)
+  ) {
+    formats.push("SVG");
+  }
+
+  return formats;
+};
+
+// CBDT에 들어 있는 글리프 PNG 이미지와 메트릭 (픽셀 단위, ppem 크기 기준)
+export interface BitmapGlyph {
+  png: Buffer;
+  ppem: number;
+  width: number;
+  height: number;
+  bearingX: number; // 원점에서 이미지 왼쪽까지
+  bearingY: number; // 기준선에서 이미지 위쪽까지
+}
+
+// 가장 큰 크기(strike)에서 글리프의 PNG 이미지 읽기 (이미지 형식 17, 18, 19만, 없으면 null)
+export const getBitmapGlyph = (
+  tables: SfntTables,
+  gid: number
+): BitmapGlyph | null => {
+  const cblc = tables.get("CBLC");
+  const cbdt = tables.get("CBDT");
+  if (!cblc || !cbdt) {
+    return null;
+  }
+
+  const strike = readBitmapStrikes(cblc)
+    .filter((candidate) => candidate.images.has(gid))
+    .sort((a, b) => b.sizeRecord.readUInt8(45) - a.sizeRecord.readUInt8(45))[0];
+  const image = strike?.images.get(gid);
+  if (!image) {
+    return null;
+  }
+
+  // 형식 17은 smallGlyphMetrics(5바이트), 18은 bigGlyphMetrics(8바이트)가 이미지 앞에 있고
+  // 19는 CBLC 인덱스의 공통 메트릭을 사용한다
+  let metrics: Buffer;
+  let dataOffset: number;
+  if (image.imageFormat === 17) {
+    metrics = cbdt.subarray(image.offset, image.offset + 5);
+    dataOffset = image.offset + 5;
+  } else if (image.imageFormat === 18) {
+    metrics = cbdt.subarray(image.offset, image.offset + 8);
+    dataOffset = image.offset + 8;
+  } else if (image.imageFormat === 19 && image.metrics) {
+    metrics = image.metrics;
+    dataOffset = image.offset;
+  } else {
+    return null;
+  }
+
+  const length = cbdt.readUInt32BE(dataOffset);
+  return {
+    png: cbdt.subarray(dataOffset + 4, dataOffset + 4 + length),
+    ppem: strike.sizeRecord.readUInt8(45),
+    height: metrics.readUInt8(0),
+    width: metrics.readUInt8(1),
+    bearingX: metrics.readInt8(2),
+    bearingY: metrics.readInt8(3),
+  };
+};
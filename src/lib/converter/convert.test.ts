@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import {
+  goldenPath,
+  parseSvg,
+  readFixture,
+  readSample,
+  serializeSvg,
+} from "@/test/helpers";
+import { createSimpleSvg, createSvgWithRaster } from "../emoji-output";
+import type { EmojiConverter } from "../svg-emoji";
+import { convert } from "./convert";
+
+// 폰트나 캔버스 없이 항상 같은 결과를 내는 변환 함수
+const simpleConverter: EmojiConverter = async (emoji, { width, height }) => ({
+  svgContent: createSimpleSvg(emoji, width, height),
+  source: "noto",
+});
+
+// id가 있는 결과로 id 충돌 처리와 재작성을 확인하는 변환 함수
+const patternConverter: EmojiConverter = async (emoji, { width, height }) => ({
+  svgContent: createSvgWithRaster(
+    Buffer.from(emoji).toString("base64"),
+    width,
+    height,
+    "image/png",
+    "pattern"
+  ),
+  source: "twemoji",
+});
+
+const SAMPLES = [
+  { name: "home", read: () => readSample("home.svg") },
+  { name: "staff", read: () => readSample("staff.svg") },
+  { name: "mixed", read: () => readFixture("mixed.svg") },
+  { name: "tspans", read: () => readFixture("tspans.svg") },
+];
+
+const getTextContent = (svg: string): string[] =>
+  Array.from(
+    parseSvg(svg).documentElement.getElementsByTagName("text"),
+    (text) => text.textContent || ""
+  );
+
+describe("convert", () => {
+  it.each(SAMPLES)(
+    "$name with foreignObject output",
+    async ({ name, read }) => {
+      const result = await convert(read(), {
+        convertEmoji: simpleConverter,
+        parseSvg,
+        serializeSvg,
+      });
+      expect(result.rejected).toEqual([]);
+      expect(result.fontFiles).toEqual([]);
+      expect(Object.values(result.emojiSources)).toSatisfy(
+        (sources: string[]) => sources.every((source) => source === "noto")
+      );
+      // 이모지는 모두 <text> 밖으로 옮겨지고 일반 텍스트만 남는다
+      expect(getTextContent(result.content).join("")).not.toMatch(
+        new RegExp("\\p{Emoji_Presentation}", "u")
+      );
+      await expect(result.content).toMatchFileSnapshot(
+        goldenPath(`convert/${name}.simple.svg`)
+      );
+    }
+  );
+
+  it.each(SAMPLES)("$name with rewritten IDs", async ({ name, read }) => {
+    const options = {
+      convertEmoji: patternConverter,
+      parseSvg,
+      serializeSvg,
+      rewriteIds: true,
+      idPrefix: `${name}-`,
+    };
+    const result = await convert(read(), options);
+    const ids = result.content.match(/\sid="[^"]+"/g) || [];
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids.every((id) => id.startsWith(` id="${name}-`))).toBe(true);
+    expect((await convert(read(), options)).content).toBe(result.content);
+    await expect(result.content).toMatchFileSnapshot(
+      goldenPath(`convert/${name}.pattern.svg`)
+    );
+  });
+
+  it("records the style that served each emoji", async () => {
+    const result = await convert(readSample("staff.svg"), {
+      convertEmoji: patternConverter,
+      parseSvg,
+      serializeSvg,
+    });
+    expect(result.emojiSources).toEqual({ "👩🏻‍💻": "twemoji" });
+  });
+
+  it("removes scripts and event handlers from the input", async () => {
+    const svg = readSample("home.svg").replace(
+      "<text",
+      '<script>alert(1)</script><text onclick="alert(1)"'
+    );
+    const result = await convert(svg, {
+      convertEmoji: simpleConverter,
+      parseSvg,
+      serializeSvg,
+    });
+    expect(result.content).not.toMatch(/script|onclick/);
+    expect(result.rejected.length).toBeGreaterThan(0);
+  });
+
+  it("rejects SVGs without emoji", async () => {
+    await expect(
+      convert(
+        '<svg xmlns="http://www.w3.org/2000/svg"><text>plain</text></svg>',
+        { convertEmoji: simpleConverter, parseSvg, serializeSvg }
+      )
+    ).rejects.toThrow("No emoji text found in SVG");
+  });
+});
@@ -0,0 +1,60 @@
+// SVG 문서 하나의 이모지를 변환하는 진입점
+// 파서, 직렬화 함수와 이모지 하나를 변환하는 방법(출력 전략)을 주입받으므로 브라우저, API 라우트, CLI에서 모두 사용한다
+import {
+  convertEmojiRuns,
+  type EmojiConverter,
+  type SvgParser,
+  type SvgSerializer,
+  type TextMeasurer,
+} from "../svg-emoji";
+import { sanitizeSvg } from "../svg-sanitize";
+import type { ConversionResult } from "./types";
+
+export interface ConvertOptions {
+  // 이모지 하나를 배치 영역 크기의 SVG로 변환하는 함수
+  // 서버에서는 createServerEmojiConverter, 브라우저에서는 API를 호출하는 함수를 넘긴다
+  convertEmoji: EmojiConverter;
+  parseSvg: SvgParser;
+  serializeSvg: SvgSerializer;
+  measureText?: TextMeasurer;
+  rewriteIds?: boolean; // 결과 SVG의 모든 id를 내용 해시 기반으로 다시 만들기
+  idPrefix?: string;
+}
+
+export async function convert(
+  svg: string,
+  {
+    convertEmoji,
+    parseSvg,
+    serializeSvg,
+    measureText,
+    rewriteIds,
+    idPrefix,
+  }: ConvertOptions
+): Promise<ConversionResult> {
+  const doc = parseSvg(svg);
+  // 결과 SVG에 원본의 스크립트나 외부 참조가 옮겨가지 않도록 변환 전후에 정리
+  const rejected = sanitizeSvg(doc);
+
+  // 이모지마다 실제로 그린 스타일 기록
+  const emojiSources: Record<string, string> = {};
+  const fontFiles = await convertEmojiRuns(
+    doc,
+    async (emoji, box) => {
+      const converted = await convertEmoji(emoji, box);
+      if (converted.source) {
+        emojiSources[emoji] = converted.source;
+      }
+      return converted;
+    },
+    { parseSvg, measureText, rewriteIds, idPrefix, serializeSvg }
+  );
+
+  rejected.push(...sanitizeSvg(doc));
+  return {
+    content: serializeSvg(doc),
+    fontFiles,
+    emojiSources,
+    rejected,
+  };
+}
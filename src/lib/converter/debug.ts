@@ -0,0 +1,22 @@
+// 이모지 코드포인트 디버그 정보 (로그와 API 응답의 debug 필드에 사용)
+
+export interface EmojiDebugInfo {
+  emoji: string;
+  length: number;
+  codePoints: string[];
+  codePointsStr: string;
+}
+
+export const getEmojiDebugInfo = (emoji: string): EmojiDebugInfo => {
+  // 서로게이트 페어를 한 글자로 다루기 위해 Array.from 사용
+  const codePoints = Array.from(emoji).map(
+    (char) => `U+${char.codePointAt(0)!.toString(16).toUpperCase()}`
+  );
+
+  return {
+    emoji,
+    length: emoji.length,
+    codePoints,
+    codePointsStr: codePoints.join(" "),
+  };
+};
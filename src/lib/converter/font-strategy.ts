@@ -0,0 +1,129 @@
+// foreignObject 변환: 컬러 폰트 서브셋으로 이모지 텍스트를 그림
+import { checkEmojiSource } from "../emoji-fallback";
+import {
+  createSimpleSvg,
+  createSvgWithFont,
+  createSvgWithInlineFont,
+} from "../emoji-output";
+import { resolveSourceFont, type EmojiSource } from "../emoji-source";
+import { getFontSubset, getSharedSubsetFileName } from "../emoji-subset";
+import type { EmojiRenderDetails, OutputStrategy } from "./strategy";
+
+// 코드포인트로 만든 이모지 식별자 (파일 이름, 글꼴 이름용)
+const getEmojiKey = (emoji: string): string =>
+  Array.from(emoji)
+    .map((char) => char.codePointAt(0)!.toString(16))
+    .join("-");
+
+// 공유 서브셋에 담을 이모지 (소스 폰트가 그릴 수 있는 이모지만, 정렬)
+// 폰트가 그리지 못하는 이모지는 대체 소스에서 따로 서브셋을 만든다
+export const getSharedSubsetEmojis = (
+  source: EmojiSource,
+  emojis: string[]
+): string[] =>
+  Array.from(new Set(emojis))
+    .filter((emoji) => !checkEmojiSource(source, emoji, "font"))
+    .sort();
+
+// 생성 중인 서브셋 - 같은 서브셋 요청이 동시에 들어와도 한 번만 생성
+// 완성된 서브셋은 디스크 캐시(src/lib/disk-cache.ts)에 저장된다
+const pendingSubsets = new Map<
+  string,
+  Promise<{ data: string; cacheHit: boolean }>
+>();
+
+const getPendingSubset = (
+  key: string,
+  emojis: string[],
+  fontPath: string
+): Promise<{ data: string; cacheHit: boolean }> => {
+  let pending = pendingSubsets.get(key);
+  if (!pending) {
+    pending = getFontSubset(emojis, fontPath);
+    pendingSubsets.set(key, pending);
+    const cleanup = () => pendingSubsets.delete(key);
+    pending.then(cleanup, cleanup);
+  }
+  return pending;
+};
+
+export const fontStrategy: OutputStrategy = {
+  usage: "font",
+  async render(
+    emoji,
+    selected,
+    { width, height },
+    { embedMode = "external", fontSize = height, sharedEmojis }
+  ) {
+    const { source } = selected;
+    if (source.kind !== "font") {
+      throw new Error(
+        `Emoji style "${selected.style}" does not provide a font`
+      );
+    }
+    // 폰트 없이 보는 쪽의 시스템 이모지 폰트로 표시
+    if (embedMode === "none") {
+      return {
+        svgContent: createSimpleSvg(emoji, width, height, fontSize),
+        details: { fontFamily: "System Emoji" },
+      };
+    }
+
+    // 공유 서브셋은 요청한 스타일의 폰트로 만드므로 대체 소스에서 가져온 이모지는 따로 만든다
+    // inline 방식은 SVG마다 폰트를 넣으므로 공유 서브셋을 쓰지 않는다 (모든 SVG에 배치 전체 폰트가 중복됨)
+    const shared =
+      sharedEmojis && !selected.fallback && embedMode === "external"
+        ? getSharedSubsetEmojis(source, [emoji, ...sharedEmojis])
+        : null;
+    const subsetEmojis = shared ?? [emoji];
+    const subset = await getPendingSubset(
+      `${selected.style}:${subsetEmojis.join(",")}`,
+      subsetEmojis,
+      resolveSourceFont(source)
+    );
+    const details: EmojiRenderDetails = {
+      cacheHit: subset.cacheHit,
+      base64Length: subset.data.length,
+      sharedSubsetEmojiCount: shared?.length,
+    };
+    // 디코딩한 WOFF2 서브셋 크기 (클라이언트 표시용)
+    const fontBytes = Buffer.from(subset.data, "base64").length;
+
+    // 폰트를 SVG 안에 넣으면 별도 폰트 파일 없이 SVG 하나로 완결
+    // 한 문서에 여러 SVG를 넣어도 @font-face가 겹치지 않도록 서브셋마다 다른 글꼴 이름 사용
+    if (embedMode === "inline") {
+      const fontFamily = `EmojiSubset-${selected.style}-${getEmojiKey(emoji)}`;
+      return {
+        svgContent: createSvgWithInlineFont(
+          emoji,
+          subset.data,
+          fontFamily,
+          width,
+          height,
+          fontSize
+        ),
+        fontBytes,
+        details: { ...details, fontFamily },
+      };
+    }
+
+    // 폰트 파일 이름 (같은 이모지 묶음이면 항상 같은 이름)
+    const fontFileName = shared
+      ? getSharedSubsetFileName(selected.style, shared)
+      : `emoji-font-${selected.style}-${getEmojiKey(emoji)}.woff2`;
+    return {
+      svgContent: createSvgWithFont(
+        emoji,
+        "EmojiSubset",
+        width,
+        height,
+        fontFileName,
+        fontSize
+      ),
+      fontData: subset.data,
+      fontFileName,
+      fontBytes,
+      details: { ...details, fontFamily: "EmojiSubset" },
+    };
+  },
+};
@@ -0,0 +1,16 @@
+// 이모지 SVG 변환 라이브러리
+// 프레임워크에 의존하지 않는 순수 함수로, 브라우저, API 라우트, CLI가 같은 변환 흐름을 사용한다
+//   convert(svg, options)  SVG 문서 하나의 이모지를 변환 (이모지 하나의 변환 방법은 options.convertEmoji로 주입)
+// 서버 전용 모듈 (Node에서만 가져올 것)
+//   ./parse                xmldom으로 SVG 문자열을 파싱하는 parseSvgDocument
+//   ./strategy             출력 전략의 공통 타입과 전략 하나로 이모지를 변환하는 renderEmoji
+//   ./*-strategy           변환 타입별 출력 전략 (raster, vector, font)
+//   ./server               변환 타입으로 전략을 고르는 createServerConvertOptions (CLI, 일괄 변환)
+export { convert, type ConvertOptions } from "./convert";
+export { getEmojiDebugInfo, type EmojiDebugInfo } from "./debug";
+export {
+  EMOJI_CONVERSION_TYPES,
+  type ConversionResult,
+  type EmojiConversionType,
+  type ServerConverterOptions,
+} from "./types";
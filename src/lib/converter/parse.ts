@@ -0,0 +1,22 @@
+// 서버에서 SVG 문자열을 문서로 파싱 (xmldom)
+import { DOMParser } from "@xmldom/xmldom";
+import type { SvgParser } from "../svg-emoji";
+
+// xmldom 파서는 오류가 있어도 문서를 돌려주므로 오류 발생 시 에러를 던지도록 설정
+export const parseSvgDocument: SvgParser = (content) => {
+  const doc = new DOMParser({
+    errorHandler: {
+      error: (message: string) => {
+        throw new Error(message);
+      },
+      fatalError: (message: string) => {
+        throw new Error(message);
+      },
+    },
+  }).parseFromString(content, "image/svg+xml");
+
+  if (!doc.documentElement || doc.documentElement.localName !== "svg") {
+    throw new Error("Invalid SVG format. Please provide a valid SVG file.");
+  }
+  return doc;
+};
@@ -0,0 +1,58 @@
+// png 변환: 선택한 스타일의 폰트나 이미지를 래스터로 렌더링해 <image>로 넣음
+import { createSvgWithRaster } from "../emoji-output";
+import { renderSourceEmojiRaster } from "../emoji-raster";
+import { DEFAULT_RASTER_FORMAT, RASTER_FORMAT_INFO } from "../raster-format";
+import {
+  DEFAULT_PNG_RESOLUTION,
+  resolvePngResolution,
+} from "../raster-resolution";
+import { noAssetError, type OutputStrategy } from "./strategy";
+
+export const rasterStrategy: OutputStrategy = {
+  usage: "raster",
+  async render(
+    emoji,
+    selected,
+    { width, height, displayScale = 1 },
+    {
+      resolution = DEFAULT_PNG_RESOLUTION,
+      format = DEFAULT_RASTER_FORMAT,
+      quality,
+      structure,
+      idPrefix,
+    }
+  ) {
+    // 배치 영역이 최종 화면에 표시되는 높이 기준으로 래스터 크기 결정
+    const raster = await renderSourceEmojiRaster(
+      emoji,
+      selected.source,
+      width,
+      height,
+      resolvePngResolution(resolution, height * displayScale),
+      { format, quality }
+    );
+    if (!raster) {
+      throw noAssetError(emoji, selected, "image");
+    }
+    const imageBase64 = raster.data.toString("base64");
+    return {
+      svgContent: createSvgWithRaster(
+        imageBase64,
+        width,
+        height,
+        RASTER_FORMAT_INFO[format].mimeType,
+        structure,
+        idPrefix
+      ),
+      rasterHeight: raster.height,
+      details: {
+        cacheHit: raster.cacheHit,
+        base64Length: imageBase64.length,
+        rasterWidth: raster.width,
+        rasterHeight: raster.height,
+        imageBytes: raster.data.length,
+        assetFormat: raster.assetFormat,
+      },
+    };
+  },
+};
@@ -0,0 +1,50 @@
+// 서버(Node)에서 convert()에 넘길 변환 함수 (CLI, 일괄 변환용)
+// 변환 타입에 맞는 출력 전략을 고르며, 모든 전략을 가져오므로 node-canvas가 필요하다
+// 폰트와 서브셋, 래스터는 레지스트리와 디스크 캐시를 거쳐 재사용한다
+import { XMLSerializer } from "@xmldom/xmldom";
+import { createServerTextMeasurer } from "../emoji-raster";
+import { formatNumber, type EmojiConverter } from "../svg-emoji";
+import type { ConvertOptions } from "./convert";
+import { fontStrategy } from "./font-strategy";
+import { parseSvgDocument } from "./parse";
+import { rasterStrategy } from "./raster-strategy";
+import { renderEmoji, type OutputStrategy } from "./strategy";
+import type { EmojiConversionType, ServerConverterOptions } from "./types";
+import { vectorStrategy } from "./vector-strategy";
+
+// 변환 타입별 출력 전략
+export const OUTPUT_STRATEGIES: Record<EmojiConversionType, OutputStrategy> = {
+  png: rasterStrategy,
+  foreignObject: fontStrategy,
+  vector: vectorStrategy,
+};
+
+// 배치 영역을 받아 이모지를 변환하는 EmojiConverter 만들기
+export const createServerEmojiConverter =
+  ({ type, ...options }: ServerConverterOptions): EmojiConverter =>
+  (emoji, box) =>
+    renderEmoji(
+      OUTPUT_STRATEGIES[type],
+      emoji,
+      {
+        width: Number(formatNumber(box.width)),
+        height: Number(formatNumber(box.height)),
+        displayScale: box.displayScale,
+      },
+      options
+    );
+
+// 서버에서 convert()에 넘길 옵션 (xmldom 파서와 node-canvas 텍스트 측정 사용)
+export const createServerConvertOptions = (
+  options: ServerConverterOptions & { rewriteIds?: boolean }
+): ConvertOptions => {
+  const serializer = new XMLSerializer();
+  return {
+    convertEmoji: createServerEmojiConverter(options),
+    parseSvg: parseSvgDocument,
+    serializeSvg: (doc) => serializer.serializeToString(doc),
+    measureText: createServerTextMeasurer(),
+    rewriteIds: options.rewriteIds,
+    idPrefix: options.idPrefix,
+  };
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import {
+  hasFont,
+  NOTO_FONT_PATH,
+  parseSvg,
+  TWEMOJI_FONT_PATH,
+} from "@/test/helpers";
+import { EmojiSourceError } from "../emoji-fallback";
+import { fontStrategy } from "./font-strategy";
+import { renderEmoji } from "./strategy";
+import { vectorStrategy } from "./vector-strategy";
+
+const BOX = { width: 72, height: 72 };
+
+const getElementNames = (svg: string): Set<string> =>
+  new Set(
+    Array.from(
+      parseSvg(svg).documentElement.getElementsByTagName("*"),
+      (element) => element.localName
+    )
+  );
+
+describe.skipIf(!hasFont(TWEMOJI_FONT_PATH))("vectorStrategy", () => {
+  it.each(["📆", "👍🏽", "👩🏻‍💻", "🇰🇷"])("outlines %s", async (emoji) => {
+    const rendered = await renderEmoji(vectorStrategy, emoji, BOX, {
+      style: "twemoji",
+      fallbackStyles: [],
+    });
+    const names = getElementNames(rendered.svgContent);
+    expect(names.has("path")).toBe(true);
+    expect(names.has("text")).toBe(false);
+    expect(names.has("foreignObject")).toBe(false);
+    expect(rendered.source).toBe("twemoji");
+    expect(rendered.details.glyphIds).toHaveLength(1);
+    expect(rendered.details.glyphFormats).toEqual(["COLRv0"]);
+  });
+});
+
+describe.skipIf(!hasFont(NOTO_FONT_PATH))("fontStrategy", () => {
+  it("embeds an inline subset with a per-emoji font family", async () => {
+    const rendered = await renderEmoji(fontStrategy, "👩🏻‍💻", BOX, {
+      style: "noto",
+      embedMode: "inline",
+    });
+    expect(rendered.details.fontFamily).toBe(
+      "EmojiSubset-noto-1f469-1f3fb-200d-1f4bb"
+    );
+    expect(rendered.svgContent).toContain("data:font/woff2;base64,d09GMg");
+    expect(rendered.fontBytes).toBeGreaterThan(0);
+    expect(rendered.fontData).toBeUndefined();
+  });
+
+  it("references an external subset file", async () => {
+    const rendered = await renderEmoji(fontStrategy, "📆", BOX, {
+      style: "noto",
+      embedMode: "external",
+    });
+    expect(rendered.fontFileName).toBe("emoji-font-noto-1f4c6.woff2");
+    expect(rendered.svgContent).toContain(`url('./${rendered.fontFileName}')`);
+    expect(
+      Buffer.from(rendered.fontData!, "base64").subarray(0, 4).toString()
+    ).toBe("wOF2");
+  });
+
+  it("falls back from an image-pack style to the first font style", async () => {
+    const rendered = await renderEmoji(fontStrategy, "📆", BOX, {
+      style: "fluent",
+      fallbackStyles: ["openmoji", "noto"],
+      embedMode: "inline",
+    });
+    expect(rendered.source).toBe("noto");
+    expect(rendered.sourceRecord).toEqual({
+      style: "noto",
+      fallback: true,
+      skipped: [
+        { style: "fluent", reason: "style does not provide a font" },
+        { style: "openmoji", reason: "style does not provide a font" },
+      ],
+    });
+    expect(rendered.details.fontFamily).toBe("EmojiSubset-noto-1f4c6");
+  });
+
+  it("fails with the skipped styles when no style has a font", async () => {
+    const error = await renderEmoji(fontStrategy, "📆", BOX, {
+      style: "openmoji",
+      fallbackStyles: [],
+    }).catch((error: unknown) => error);
+    expect(error).toBeInstanceOf(EmojiSourceError);
+    expect((error as EmojiSourceError).attempts).toEqual([
+      { style: "openmoji", reason: "style does not provide a font" },
+    ]);
+  });
+});
@@ -0,0 +1,86 @@
+// 출력 전략의 공통 타입과 전략으로 이모지 하나를 변환하는 함수 (서버 전용)
+// 전략은 변환 타입마다 한 파일에 있으며, 라우트는 필요한 전략만 가져온다
+// (래스터 전략만 node-canvas를 사용하므로 다른 라우트가 네이티브 모듈을 불러오지 않도록 분리)
+import {
+  EmojiSourceError,
+  getEmojiStyleChain,
+  selectEmojiSource,
+  toEmojiSourceRecord,
+  type EmojiSourceRecord,
+  type EmojiSourceUsage,
+  type SelectedEmojiSource,
+} from "../emoji-fallback";
+import type { ConvertedEmoji, EmojiBox } from "../svg-emoji";
+import { getEmojiDebugInfo } from "./debug";
+import type { ServerConverterOptions } from "./types";
+
+// 전략에 넘기는 옵션 (변환 타입은 전략 자체로 정해짐)
+export type StrategyOptions = Omit<ServerConverterOptions, "type">;
+
+// 전략이 변환 결과와 함께 돌려주는 정보 (API 응답의 debug 필드와 로그용)
+export interface EmojiRenderDetails {
+  cacheHit?: boolean;
+  base64Length?: number; // SVG에 넣거나 함께 내보내는 이미지, 폰트 데이터의 Base64 길이
+  rasterWidth?: number;
+  rasterHeight?: number;
+  imageBytes?: number;
+  assetFormat?: string;
+  assetPath?: string; // 작업 디렉토리 기준 상대 경로
+  glyphIds?: number[];
+  glyphFormats?: string[];
+  fontFamily?: string;
+  sharedSubsetEmojiCount?: number;
+}
+
+export interface StrategyOutput extends Omit<ConvertedEmoji, "source"> {
+  details: EmojiRenderDetails;
+}
+
+// 변환 타입 하나의 출력 방법
+export interface OutputStrategy {
+  usage: EmojiSourceUsage; // 소스에 필요한 데이터 (대체 스타일을 고를 때 사용)
+  render: (
+    emoji: string,
+    selected: SelectedEmojiSource,
+    box: Pick<EmojiBox, "width" | "height" | "displayScale">,
+    options: StrategyOptions
+  ) => Promise<StrategyOutput>;
+}
+
+export interface RenderedEmoji extends StrategyOutput, ConvertedEmoji {
+  sourceRecord: EmojiSourceRecord; // 이모지를 그린 스타일과 건너뛴 스타일
+}
+
+// 고른 소스에 이모지 파일이 없을 때 (체인의 앞선 시도와 함께 보고)
+export const noAssetError = (
+  emoji: string,
+  selected: SelectedEmojiSource,
+  kind: string
+): EmojiSourceError =>
+  new EmojiSourceError(
+    `Emoji style "${selected.style}" has no ${kind} for ${
+      getEmojiDebugInfo(emoji).codePointsStr
+    }`,
+    [...selected.skipped, { style: selected.style, reason: `no ${kind} file` }]
+  );
+
+// 체인에서 이모지를 그릴 수 있는 첫 번째 스타일의 소스로 이모지 하나 변환
+// 어떤 소스도 그리지 못하면 EmojiSourceError, 서브셋 검증에 실패하면 EmojiSubsetError
+export async function renderEmoji(
+  strategy: OutputStrategy,
+  emoji: string,
+  box: Pick<EmojiBox, "width" | "height" | "displayScale">,
+  options: StrategyOptions
+): Promise<RenderedEmoji> {
+  const selected = selectEmojiSource(
+    emoji,
+    getEmojiStyleChain(options.style, options.fallbackStyles),
+    strategy.usage
+  );
+  const output = await strategy.render(emoji, selected, box, options);
+  return {
+    ...output,
+    source: selected.style,
+    sourceRecord: toEmojiSourceRecord(selected),
+  };
+}
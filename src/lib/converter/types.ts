@@ -0,0 +1,44 @@
+// 변환 라이브러리의 공통 타입 (브라우저와 서버 모두에서 가져올 수 있음)
+import type { FontEmbedMode } from "../emoji-output";
+import type { EmojiStyle } from "../emoji-styles";
+import type { RasterFormat, RasterStructure } from "../raster-format";
+import type { PngResolution } from "../raster-resolution";
+import type { EmojiFontFile } from "../svg-emoji";
+import type { RejectedContent } from "../svg-sanitize";
+
+// SVG 변환 타입 (출력 전략)
+//   png            래스터 이미지를 넣은 <image>
+//   foreignObject  폰트 서브셋으로 그리는 텍스트
+//   vector         컬러 글리프나 이미지 팩 SVG의 도형
+export type EmojiConversionType = "foreignObject" | "png" | "vector";
+
+export const EMOJI_CONVERSION_TYPES: EmojiConversionType[] = [
+  "png",
+  "foreignObject",
+  "vector",
+];
+
+// 서버에서 이모지를 변환할 때의 옵션 (출력 전략마다 필요한 옵션만 사용)
+export interface ServerConverterOptions {
+  type: EmojiConversionType;
+  style: EmojiStyle;
+  fallbackStyles?: EmojiStyle[]; // style이 그리지 못하는 이모지를 시도할 스타일 순서
+  idPrefix?: string; // 변환 결과 SVG의 id 접두사
+  // png
+  resolution?: PngResolution; // PNG 래스터 높이 (픽셀, 표시 크기 배수 또는 auto)
+  format?: RasterFormat; // 래스터 이미지 형식 (기본값: PNG)
+  quality?: number; // WebP/AVIF 품질 (1~100, 기본값: 형식별 기본값)
+  structure?: RasterStructure; // 래스터 이미지를 SVG에 넣는 구조 (기본값: <image>)
+  // foreignObject
+  embedMode?: FontEmbedMode; // 폰트 서브셋을 넣는 방식 (기본값: external)
+  fontSize?: number; // 글꼴 크기 (기본값: 배치 영역 높이)
+  sharedEmojis?: string[]; // external 방식에서 하나의 공유 서브셋에 함께 담을 이모지
+}
+
+// 한 SVG 문서의 변환 결과
+export interface ConversionResult {
+  content: string;
+  fontFiles: EmojiFontFile[]; // 결과 SVG와 함께 내려받아야 하는 폰트 파일
+  emojiSources: Record<string, string>; // 이모지 -> 그 이모지를 그린 스타일
+  rejected: RejectedContent[]; // 원본과 변환 결과에서 허용 목록에 없어 제거한 내용
+}
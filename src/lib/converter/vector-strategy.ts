@@ -0,0 +1,61 @@
+// vector 변환: 컬러 글리프나 이미지 팩 SVG의 도형을 그대로 넣음
+import fs from "fs";
+import path from "path";
+import { LRUCache } from "lru-cache";
+import { getEmojiVector, type VectorGlyphRun } from "../color-glyph";
+import { createSvgWithAsset, createSvgWithPaths } from "../emoji-output";
+import { resolveEmojiAsset, resolveSourceFont } from "../emoji-source";
+import { noAssetError, type OutputStrategy } from "./strategy";
+
+// 이모지 벡터 캐시 - 폰트 단위 마크업이므로 크기와 무관하게 재사용
+const emojiVectorCache = new LRUCache<string, VectorGlyphRun>({
+  max: 100,
+  ttl: 1000 * 60 * 60 * 6, // 6시간 후 만료
+});
+
+export const vectorStrategy: OutputStrategy = {
+  usage: "vector",
+  async render(emoji, selected, { width, height }, { idPrefix }) {
+    const { source } = selected;
+
+    // 이미지 기반 스타일은 이모지 SVG 파일의 도형을 그대로 사용
+    if (source.kind === "assets") {
+      const asset = resolveEmojiAsset(source, emoji, ["svg"]);
+      if (!asset) {
+        throw noAssetError(emoji, selected, "SVG");
+      }
+      return {
+        svgContent: createSvgWithAsset(
+          fs.readFileSync(asset.path, "utf8"),
+          width,
+          height,
+          idPrefix
+        ),
+        details: { assetPath: path.relative(process.cwd(), asset.path) },
+      };
+    }
+
+    // 메모리 캐시에서 먼저 확인 (스타일마다 폰트가 다르므로 키에 포함)
+    // 없으면 디스크 캐시를 거쳐 폰트에서 추출
+    const cacheKey = `${selected.style}:${emoji}`;
+    let vector = emojiVectorCache.get(cacheKey);
+    let cacheHit = true;
+    if (!vector) {
+      const result = await getEmojiVector(
+        resolveSourceFont(source, "vector"),
+        emoji
+      );
+      vector = result.vector;
+      cacheHit = result.cacheHit;
+      emojiVectorCache.set(cacheKey, vector);
+    }
+    return {
+      svgContent: createSvgWithPaths(vector, width, height, idPrefix),
+      details: {
+        cacheHit,
+        glyphIds: vector.glyphIds,
+        glyphFormats: vector.formats,
+      },
+    };
+  },
+};
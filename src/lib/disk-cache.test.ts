@@ -0,0 +1,32 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { readCache, writeCache } from "./disk-cache";
+
+describe("writeCache", () => {
+  let cacheDir: string;
+
+  beforeAll(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), "emoji-cache-test-"));
+    vi.stubEnv("EMOJI_CACHE_DIR", cacheDir);
+    vi.stubEnv("EMOJI_CACHE_MAX_BYTES", "100");
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it("counts an overwritten entry once", () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    const key = "ab".repeat(32);
+    // 60바이트 항목을 여러 번 덮어써도 최대 크기(100바이트)를 넘지 않아 정리가 일어나지 않는다
+    for (let i = 0; i < 3; i++) {
+      writeCache(key, Buffer.alloc(60, i));
+    }
+    expect(log).not.toHaveBeenCalled();
+    expect(readCache(key)).toEqual(Buffer.alloc(60, 2));
+    log.mockRestore();
+  });
+});
@@ -0,0 +1,167 @@
+// 폰트 서브셋, 래스터 이미지 등 변환 결과를 디스크에 저장하는 콘텐츠 주소 기반 캐시
+// 키는 (이모지, 원본 파일 해시, 출력 형식, 크기) 등을 해시한 값이며 서버를 재시작해도 유지된다
+//
+// 환경 변수
+//   EMOJI_CACHE_DIR        캐시 디렉토리 (기본값: 시스템 임시 디렉토리의 figma-emoji-cache)
+//   EMOJI_CACHE_MAX_BYTES  최대 캐시 크기 (기본값: 256MB), 넘으면 오래 사용하지 않은 항목부터 삭제
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const DEFAULT_MAX_BYTES = 256 * 1024 * 1024;
+
+// 정리 후 남길 크기 비율 (정리가 너무 자주 일어나지 않도록 여유를 둠)
+const EVICTION_TARGET_RATIO = 0.8;
+
+export const getCacheDirectory = (): string =>
+  process.env.EMOJI_CACHE_DIR || path.join(os.tmpdir(), "figma-emoji-cache");
+
+const getMaxBytes = (): number => {
+  const value = Number(process.env.EMOJI_CACHE_MAX_BYTES);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_MAX_BYTES;
+};
+
+// 캐시 조회 결과
+export interface CachedResult {
+  data: Buffer;
+  cacheHit: boolean;
+}
+
+// 캐시에 들어있는 전체 크기 (처음 쓸 때 디렉토리를 훑어서 계산)
+let cachedBytes: number | null = null;
+
+// 파일 경로별 내용 해시 (같은 파일을 매번 다시 읽지 않도록 크기와 수정 시각으로 구분)
+const fileHashes = new Map<string, { stamp: string; hash: string }>();
+
+// 파일 내용의 SHA-256 해시 (폰트나 이미지 파일이 바뀌면 캐시 키도 바뀜)
+export const getFileHash = (filePath: string): string => {
+  const stats = fs.statSync(filePath);
+  const stamp = `${stats.size}:${stats.mtimeMs}`;
+  const known = fileHashes.get(filePath);
+  if (known && known.stamp === stamp) {
+    return known.hash;
+  }
+
+  const hash = crypto
+    .createHash("sha256")
+    .update(fs.readFileSync(filePath))
+    .digest("hex");
+  fileHashes.set(filePath, { stamp, hash });
+  return hash;
+};
+
+// 캐시 키 생성 (키 구성 요소의 순서와 무관하게 같은 값이면 같은 키)
+export const createCacheKey = (parts: Record<string, unknown>): string => {
+  const normalized = Object.keys(parts)
+    .sort()
+    .map((name) => [name, parts[name]]);
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify(normalized))
+    .digest("hex");
+};
+
+const getEntryPath = (key: string): string =>
+  path.join(getCacheDirectory(), key.slice(0, 2), key);
+
+// 캐시 디렉토리의 모든 항목 (경로, 크기, 마지막 사용 시각)
+const listEntries = () => {
+  const root = getCacheDirectory();
+  if (!fs.existsSync(root)) {
+    return [];
+  }
+
+  return fs.readdirSync(root).flatMap((bucket) => {
+    const bucketPath = path.join(root, bucket);
+    if (!fs.statSync(bucketPath).isDirectory()) {
+      return [];
+    }
+    return fs
+      .readdirSync(bucketPath)
+      .filter((name) => !name.endsWith(".tmp"))
+      .map((name) => {
+        const entryPath = path.join(bucketPath, name);
+        const stats = fs.statSync(entryPath);
+        return { path: entryPath, size: stats.size, usedAt: stats.mtimeMs };
+      });
+  });
+};
+
+// 최대 크기를 넘으면 오래 사용하지 않은 항목부터 삭제
+const evictIfNeeded = () => {
+  const maxBytes = getMaxBytes();
+  if (cachedBytes === null) {
+    cachedBytes = listEntries().reduce((sum, entry) => sum + entry.size, 0);
+  }
+  if (cachedBytes <= maxBytes) {
+    return;
+  }
+
+  const entries = listEntries().sort((a, b) => a.usedAt - b.usedAt);
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  const target = maxBytes * EVICTION_TARGET_RATIO;
+
+  for (const entry of entries) {
+    if (total <= target) {
+      break;
+    }
+    fs.rmSync(entry.path, { force: true });
+    total -= entry.size;
+  }
+
+  console.log(`Emoji cache evicted to ${total} bytes`);
+  cachedBytes = total;
+};
+
+// 캐시에서 읽기 (없으면 null), 읽은 항목은 사용 시각을 갱신
+export const readCache = (key: string): Buffer | null => {
+  const entryPath = getEntryPath(key);
+  try {
+    const data = fs.readFileSync(entryPath);
+    const now = new Date();
+    fs.utimesSync(entryPath, now, now);
+    return data;
+  } catch (_error) {
+    return null;
+  }
+};
+
+// 캐시에 쓰기 (임시 파일에 쓴 뒤 이름을 바꿔 읽는 쪽이 쓰다 만 파일을 보지 않도록 함)
+export const writeCache = (key: string, data: Buffer): void => {
+  const entryPath = getEntryPath(key);
+  try {
+    fs.mkdirSync(path.dirname(entryPath), { recursive: true });
+    const tempPath = `${entryPath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, data);
+    // 같은 키를 덮어쓰면 이전 항목의 크기를 빼고 더한다
+    const previousSize = fs.existsSync(entryPath)
+      ? fs.statSync(entryPath).size
+      : 0;
+    fs.renameSync(tempPath, entryPath);
+
+    if (cachedBytes !== null) {
+      cachedBytes += data.length - previousSize;
+    }
+    evictIfNeeded();
+  } catch (error) {
+    // 캐시 실패는 변환 결과에 영향을 주지 않음
+    console.warn("Failed to write emoji cache entry:", error);
+  }
+};
+
+// 캐시에 있으면 그대로 돌려주고, 없으면 만들어서 저장한 뒤 돌려줌
+export async function withDiskCache(
+  keyParts: Record<string, unknown>,
+  produce: () => Promise<Buffer>
+): Promise<CachedResult> {
+  const key = createCacheKey(keyParts);
+  const cached = readCache(key);
+  if (cached) {
+    return { data: cached, cacheHit: true };
+  }
+
+  const data = await produce();
+  writeCache(key, data);
+  return { data, cacheHit: false };
+}
@@ -0,0 +1,191 @@
+// 선택한 스타일이 그리지 못하는 이모지를 다음 순서의 폰트나 이미지 팩에서 찾는 대체 소스 체인
+// 새로 추가된 이모지가 기본 폰트에 없을 때 시스템 폰트에 맡기지 않고 다른 번들 소스로 변환한다
+//
+// 환경 변수
+//   EMOJI_FALLBACK_STYLES  대체 스타일 순서 (쉼표로 구분, 기본값: 선택한 스타일을 뺀 모든 스타일, 빈 값이면 대체하지 않음)
+import { getColorGlyphFormats } from "./color-tables";
+import {
+  getEmojiSource,
+  resolveEmojiAsset,
+  resolveSourceFont,
+  type EmojiSource,
+} from "./emoji-source";
+import { EMOJI_STYLES, isEmojiStyle, type EmojiStyle } from "./emoji-styles";
+import { resolveEmojiGlyphs } from "./emoji-subset";
+import { getResidentFont, getResidentFontTables } from "./font-registry";
+
+// 소스를 사용하는 변환 방식
+//   raster  PNG 렌더링 (컬러 폰트 또는 SVG/PNG 이미지)
+//   vector  도형 변환 (COLR/SVG 벡터 폰트 또는 SVG 이미지)
+//   font    폰트 서브셋 (컬러 폰트만)
+export type EmojiSourceUsage = "raster" | "vector" | "font";
+
+// 앞선 소스가 이모지를 그리지 못한 이유
+export interface EmojiSourceAttempt {
+  style: EmojiStyle;
+  reason: string;
+}
+
+// 이모지를 그릴 소스
+export interface SelectedEmojiSource {
+  style: EmojiStyle;
+  source: EmojiSource;
+  fallback: boolean; // 요청한 스타일이 아닌 대체 소스인지
+  skipped: EmojiSourceAttempt[];
+}
+
+// 체인의 어떤 소스도 이모지를 그리지 못할 때 발생하는 오류
+export class EmojiSourceError extends Error {
+  readonly attempts: EmojiSourceAttempt[];
+
+  constructor(message: string, attempts: EmojiSourceAttempt[]) {
+    super(message);
+    this.name = "EmojiSourceError";
+    this.attempts = attempts;
+  }
+}
+
+// 벡터 변환에 쓸 수 있는 폰트 컬러 데이터 (비트맵은 도형으로 바꿀 수 없음)
+const VECTOR_COLOR_FORMATS = ["COLR", "SVG"];
+
+// 쉼표로 구분한 스타일 목록 읽기 (알 수 없는 스타일이 있으면 null)
+export const parseEmojiStyleList = (value: string): EmojiStyle[] | null => {
+  const styles = value
+    .split(",")
+    .map((style) => style.trim())
+    .filter(Boolean);
+  return isEmojiStyleList(styles) ? styles : null;
+};
+
+export const isEmojiStyleList = (value: unknown): value is EmojiStyle[] =>
+  Array.isArray(value) && value.every(isEmojiStyle);
+
+const getConfiguredFallbackStyles = (): EmojiStyle[] | null => {
+  const value = process.env.EMOJI_FALLBACK_STYLES;
+  if (value === undefined) {
+    return null;
+  }
+  const styles = parseEmojiStyleList(value);
+  if (!styles) {
+    console.warn(`Ignoring invalid EMOJI_FALLBACK_STYLES: ${value}`);
+  }
+  return styles;
+};
+
+// 요청한 스타일과 대체 스타일을 시도할 순서대로 나열 (중복 제거)
+// fallbackStyles를 지정하지 않으면 환경 변수, 그것도 없으면 나머지 모든 스타일을 사용
+export const getEmojiStyleChain = (
+  style: EmojiStyle,
+  fallbackStyles?: EmojiStyle[]
+): EmojiStyle[] =>
+  Array.from(
+    new Set([
+      style,
+      ...(fallbackStyles ?? getConfiguredFallbackStyles() ?? EMOJI_STYLES),
+    ])
+  );
+
+// 폰트가 이모지의 모든 글리프를 컬러로 그릴 수 있는지 확인 (그릴 수 없으면 이유 반환)
+const checkFontCoverage = (
+  fontPath: string,
+  emoji: string,
+  usage: EmojiSourceUsage
+): string | null => {
+  const font = getResidentFont(fontPath).font;
+  const tables = getResidentFontTables(fontPath);
+  for (const { codePoints, glyphIds } of resolveEmojiGlyphs(font, emoji)) {
+    const sequence = codePoints
+      .map((cp) => "U+" + cp.toString(16).toUpperCase())
+      .join(" ");
+    if (glyphIds.length === 0 || glyphIds.includes(0)) {
+      return `no glyph for ${sequence}`;
+    }
+    const formats = glyphIds.map((gid) => getColorGlyphFormats(tables, gid));
+    const usable = formats.every((glyphFormats) =>
+      usage === "vector"
+        ? glyphFormats.some((format) => VECTOR_COLOR_FORMATS.includes(format))
+        : glyphFormats.length > 0
+    );
+    if (!usable) {
+      return `no ${
+        usage === "vector" ? "vector color" : "color"
+      } data for ${sequence}`;
+    }
+  }
+  return null;
+};
+
+// 소스가 이모지를 그릴 수 있는지 확인 (그릴 수 있으면 null, 아니면 이유)
+export const checkEmojiSource = (
+  source: EmojiSource,
+  emoji: string,
+  usage: EmojiSourceUsage
+): string | null => {
+  if (source.kind === "assets") {
+    if (usage === "font") {
+      return "style does not provide a font";
+    }
+    return resolveEmojiAsset(
+      source,
+      emoji,
+      usage === "vector" ? ["svg"] : source.formats
+    )
+      ? null
+      : `no ${usage === "vector" ? "SVG" : "image"} file`;
+  }
+
+  let fontPath: string;
+  try {
+    fontPath = resolveSourceFont(
+      source,
+      usage === "vector" ? "vector" : "subset"
+    );
+  } catch (_error) {
+    return "font file not found";
+  }
+  try {
+    return checkFontCoverage(fontPath, emoji, usage);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+// 응답과 매니페스트에 남기는 소스 정보
+export type EmojiSourceRecord = Omit<SelectedEmojiSource, "source">;
+
+export const toEmojiSourceRecord = ({
+  style,
+  fallback,
+  skipped,
+}: SelectedEmojiSource): EmojiSourceRecord => ({ style, fallback, skipped });
+
+// 체인 순서대로 이모지를 그릴 수 있는 첫 번째 소스 고르기
+export const selectEmojiSource = (
+  emoji: string,
+  styles: EmojiStyle[],
+  usage: EmojiSourceUsage
+): SelectedEmojiSource => {
+  const skipped: EmojiSourceAttempt[] = [];
+  for (const style of styles) {
+    const source = getEmojiSource(style);
+    const reason = checkEmojiSource(source, emoji, usage);
+    if (!reason) {
+      if (skipped.length > 0) {
+        console.log(
+          `Emoji ${emoji} served by fallback style "${style}" (skipped ${skipped
+            .map((attempt) => attempt.style)
+            .join(", ")})`
+        );
+      }
+      return { style, source, fallback: style !== styles[0], skipped };
+    }
+    skipped.push({ style, reason });
+  }
+
+  throw new EmojiSourceError(
+    `No emoji source can render ${emoji}: ${skipped
+      .map(({ style, reason }) => `${style} (${reason})`)
+      .join("; ")}`,
+    skipped
+  );
+};
@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import { goldenPath, parseSvg } from "@/test/helpers";
+import {
+  createSimpleSvg,
+  createSvgWithAsset,
+  createSvgWithFont,
+  createSvgWithInlineFont,
+  createSvgWithPaths,
+  createSvgWithRaster,
+} from "./emoji-output";
+import { RASTER_STRUCTURES } from "./raster-format";
+
+// 실제 이미지 대신 쓰는 짧은 Base64 (PNG 시그니처)
+const IMAGE_BASE64 = "iVBORw0KGgo=";
+
+const getElementNames = (svg: string): string[] =>
+  Array.from(
+    parseSvg(svg).documentElement.getElementsByTagName("*"),
+    (element) => element.localName
+  );
+
+describe("foreignObject output", () => {
+  it("references an external font subset", async () => {
+    const svg = createSvgWithFont(
+      "👩🏻‍💻",
+      "EmojiSubset-noto-1f469-1f3fb-200d-1f4bb",
+      72,
+      72,
+      "emoji-font-noto-1f469-1f3fb-200d-1f4bb.woff2"
+    );
+    expect(getElementNames(svg)).toEqual([
+      "defs",
+      "style",
+      "foreignObject",
+      "div",
+    ]);
+    await expect(svg).toMatchFileSnapshot(goldenPath("output/font.svg"));
+  });
+
+  it("embeds an inline font subset", async () => {
+    const svg = createSvgWithInlineFont(
+      "📆",
+      "d09GMgABAAA=",
+      "EmojiSubset-noto-1f4c6"
+    );
+    expect(svg).toContain("url('data:font/woff2;base64,d09GMgABAAA=')");
+    await expect(svg).toMatchFileSnapshot(goldenPath("output/inline-font.svg"));
+  });
+
+  it("falls back to plain text", async () => {
+    const svg = createSimpleSvg("🇰🇷", 32, 32, 24);
+    expect(parseSvg(svg).documentElement.textContent?.trim()).toBe("🇰🇷");
+    await expect(svg).toMatchFileSnapshot(goldenPath("output/simple.svg"));
+  });
+
+  it("escapes markup in the emoji text", () => {
+    const svg = createSimpleSvg("<script>alert(1)</script>");
+    expect(getElementNames(svg)).toEqual(["foreignObject", "div"]);
+  });
+});
+
+describe("createSvgWithRaster", () => {
+  it.each(RASTER_STRUCTURES)("%s structure", async (structure) => {
+    const svg = createSvgWithRaster(
+      IMAGE_BASE64,
+      16,
+      16,
+      "image/png",
+      structure
+    );
+    expect(svg).toContain(`data:image/png;base64,${IMAGE_BASE64}`);
+    await expect(svg).toMatchFileSnapshot(
+      goldenPath(`output/raster-${structure}.svg`)
+    );
+  });
+
+  it("derives IDs from the content and the prefix", () => {
+    const first = createSvgWithRaster(
+      IMAGE_BASE64,
+      16,
+      16,
+      "image/png",
+      "pattern"
+    );
+    const again = createSvgWithRaster(
+      IMAGE_BASE64,
+      16,
+      16,
+      "image/png",
+      "pattern"
+    );
+    const other = createSvgWithRaster(
+      "R0lGODlh",
+      16,
+      16,
+      "image/png",
+      "pattern"
+    );
+    const prefixed = createSvgWithRaster(
+      IMAGE_BASE64,
+      16,
+      16,
+      "image/png",
+      "pattern",
+      "icon-"
+    );
+    const ids = (svg: string) => svg.match(/\sid="[^"]+"/g);
+
+    expect(again).toBe(first);
+    expect(ids(other)).not.toEqual(ids(first));
+    expect(ids(prefixed)?.every((id) => id.includes('"icon-'))).toBe(true);
+  });
+});
+
+describe("vector output", () => {
+  it("scales glyph paths into the box", async () => {
+    const svg = createSvgWithPaths(
+      {
+        markup:
+          '<defs><linearGradient id="g"><stop offset="0" stop-color="#FFCC4D"/></linearGradient></defs><path d="M0 0H2048V2048H0Z" fill="url(#g)"/>',
+        advanceWidth: 2048,
+        ascent: 1900,
+        descent: -500,
+        unitsPerEm: 2048,
+        glyphIds: [1],
+        formats: ["COLRv1"],
+      },
+      72,
+      72
+    );
+    expect(svg).not.toContain('id="g"');
+    await expect(svg).toMatchFileSnapshot(goldenPath("output/paths.svg"));
+  });
+
+  it("nests and sanitizes an emoji asset SVG", async () => {
+    const svg = createSvgWithAsset(
+      '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 36 36"><script>alert(1)</script><circle id="face" cx="18" cy="18" r="18" fill="#FFCC4D" onclick="alert(1)"/><use href="#face"/></svg>',
+      72,
+      72
+    );
+    expect(getElementNames(svg)).toEqual(["svg", "circle", "use"]);
+    expect(svg).not.toContain("onclick");
+    await expect(svg).toMatchFileSnapshot(goldenPath("output/asset.svg"));
+  });
+});
@@ -0,0 +1,228 @@
+// 변환된 이모지 하나를 담는 SVG 문서를 만드는 함수 모음
+// API 라우트와 CLI가 같은 출력을 만들도록 공유한다
+import { DOMParser, XMLSerializer } from "@xmldom/xmldom";
+import type { VectorGlyphRun } from "./color-glyph";
+import {
+  DEFAULT_RASTER_STRUCTURE,
+  type RasterStructure,
+} from "./raster-format";
+import { assignContentIds, DEFAULT_ID_PREFIX } from "./svg-ids";
+import {
+  formatRejectedContent,
+  rawXml,
+  sanitizeSvg,
+  xml,
+} from "./svg-sanitize";
+
+// 만든 SVG의 모든 id를 (접두사 + 내용 해시 + 순번)으로 바꾸기
+// 원래 id는 만드는 쪽에서 자유롭게 정하고, 여러 SVG를 한 문서에 넣을 때 겹치지 않도록 여기서 정리한다
+const withContentIds = (svg: string, idPrefix: string): string => {
+  if (!/\sid=/.test(svg)) {
+    return svg;
+  }
+  const doc = new DOMParser().parseFromString(svg, "image/svg+xml");
+  assignContentIds(doc.documentElement, svg, idPrefix);
+  return new XMLSerializer().serializeToString(doc);
+};
+
+// foreignObject SVG에서 폰트 서브셋을 넣는 방식
+//   inline    WOFF2를 data URI로 SVG 안에 넣음 (파일 하나로 완결)
+//   external  옆에 둔 폰트 파일을 상대 경로로 참조
+//   none      폰트 없이 보는 쪽의 시스템 이모지 폰트로 표시
+export type FontEmbedMode = "inline" | "external" | "none";
+
+export const FONT_EMBED_MODES: FontEmbedMode[] = ["inline", "external", "none"];
+
+export const isFontEmbedMode = (value: unknown): value is FontEmbedMode =>
+  FONT_EMBED_MODES.includes(value as FontEmbedMode);
+
+// @font-face로 지정한 폰트를 사용하는 foreignObject SVG
+const createSvgWithFontFace = (
+  emoji: string,
+  fontFamily: string,
+  width: number,
+  height: number,
+  fontUrl: string,
+  fontSize: number
+): string => {
+  return xml`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}">
+  <defs>
+    <style type="text/css">
+      @font-face {
+        font-family: '${fontFamily}';
+        src: url('${fontUrl}') format('woff2');
+        font-display: swap;
+      }
+    </style>
+  </defs>
+  <foreignObject x="0" y="0" width="${width}" height="${height}">
+    <div xmlns="http://www.w3.org/1999/xhtml" style="display: flex; justify-content: center; align-items: center; width: 100%; height: 100%; font-size: ${fontSize}px; line-height: 1; font-family: '${fontFamily}';">${emoji}</div>
+  </foreignObject>
+</svg>`;
+};
+
+// 폰트 서브셋 파일을 참조하는 foreignObject SVG 생성 함수
+export const createSvgWithFont = (
+  emoji: string,
+  fontFamily: string = "EmojiSubset",
+  width: number = 72,
+  height: number = 72,
+  fontFileName: string = "emoji-font.woff2",
+  fontSize: number = height * 0.7
+): string =>
+  createSvgWithFontFace(
+    emoji,
+    fontFamily,
+    width,
+    height,
+    `./${fontFileName}`,
+    fontSize
+  );
+
+// 폰트 서브셋을 data URI로 포함한 foreignObject SVG 생성 함수
+// 한 문서에 여러 서브셋이 들어가도 서로 덮어쓰지 않도록 서브셋마다 다른 글꼴 이름을 사용해야 한다
+export const createSvgWithInlineFont = (
+  emoji: string,
+  fontBase64: string,
+  fontFamily: string,
+  width: number = 72,
+  height: number = 72,
+  fontSize: number = height * 0.7
+): string =>
+  createSvgWithFontFace(
+    emoji,
+    fontFamily,
+    width,
+    height,
+    `data:font/woff2;base64,${fontBase64}`,
+    fontSize
+  );
+
+// 폴백 SVG 생성 함수
+export const createSimpleSvg = (
+  emoji: string,
+  width: number = 72,
+  height: number = 72,
+  fontSize: number = height * 0.7
+): string => {
+  return xml`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}">
+  <foreignObject x="0" y="0" width="${width}" height="${height}">
+    <div xmlns="http://www.w3.org/1999/xhtml" style="display: flex; justify-content: center; align-items: center; width: 100%; height: 100%; font-size: ${fontSize}px; line-height: 1;">${emoji}</div>
+  </foreignObject>
+</svg>`;
+};
+
+// 래스터 이미지(PNG/WebP/AVIF)를 포함한 SVG 생성 함수
+// structure에 따라 감싸는 방식이 달라짐 (RASTER_STRUCTURE_INFO 참고)
+// id는 내용 해시로 정해지므로 같은 입력이면 항상 같은 SVG가 나온다
+export const createSvgWithRaster = (
+  imageBase64: string,
+  width: number,
+  height: number,
+  mimeType: string = "image/png",
+  structure: RasterStructure = DEFAULT_RASTER_STRUCTURE,
+  idPrefix: string = DEFAULT_ID_PREFIX
+): string => {
+  const href = `data:${mimeType};base64,${imageBase64}`;
+  const open = xml`<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" fill="none" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">`;
+
+  if (structure === "pattern") {
+    // Figma 내보내기와 같은 구조 (영역 전체를 채우는 사각형)
+    return withContentIds(
+      xml`${rawXml(open)}
+  <rect width="${width}" height="${height}" fill="url(#pattern)"/>
+  <defs>
+    <pattern id="pattern" patternContentUnits="objectBoundingBox" width="1" height="1">
+      <use xlink:href="#image" transform="scale(${1 / width} ${1 / height})"/>
+    </pattern>
+    <image id="image" width="${width}" height="${height}" xlink:href="${href}"/>
+  </defs>
+</svg>`,
+      idPrefix
+    );
+  }
+
+  if (structure === "symbol") {
+    // 같은 이미지를 여러 번 참조할 수 있는 심볼
+    return withContentIds(
+      xml`${rawXml(open)}
+  <defs>
+    <symbol id="symbol" viewBox="0 0 ${width} ${height}">
+      <image width="${width}" height="${height}" xlink:href="${href}"/>
+    </symbol>
+  </defs>
+  <use xlink:href="#symbol" width="${width}" height="${height}"/>
+</svg>`,
+      idPrefix
+    );
+  }
+
+  return xml`${rawXml(open)}
+  <image width="${width}" height="${height}" xlink:href="${href}"/>
+</svg>`;
+};
+
+// 벡터 마크업을 감싸는 SVG 생성 함수
+// 글리프 런의 전진 폭과 폰트 높이를 영역 안에 비율을 유지하며 가운데 배치
+export const createSvgWithPaths = (
+  vector: VectorGlyphRun,
+  width: number,
+  height: number,
+  idPrefix: string = DEFAULT_ID_PREFIX
+): string => {
+  const fontHeight = vector.ascent - vector.descent;
+  const scale = Math.min(width / vector.advanceWidth, height / fontHeight);
+  const offsetX = (width - vector.advanceWidth * scale) / 2;
+  const baseline = (height - fontHeight * scale) / 2 + vector.ascent * scale;
+  const round = (value: number) => Math.round(value * 10000) / 10000;
+
+  return withContentIds(
+    xml`<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" fill="none" xmlns="http://www.w3.org/2000/svg">
+  <g transform="matrix(${round(scale)} 0 0 ${round(-scale)} ${round(
+    offsetX
+  )} ${round(baseline)})">${rawXml(vector.markup)}</g>
+</svg>`,
+    idPrefix
+  );
+};
+
+// 이모지 SVG 파일을 감싸는 SVG 생성 함수
+// 원본 viewBox를 유지한 중첩 svg로 넣어 영역 안에 비율을 유지하며 가운데 배치
+export const createSvgWithAsset = (
+  assetSvg: string,
+  width: number,
+  height: number,
+  idPrefix: string = DEFAULT_ID_PREFIX
+): string => {
+  const doc = new DOMParser().parseFromString(assetSvg, "image/svg+xml");
+  const root = doc.documentElement;
+  if (!root || root.localName !== "svg") {
+    throw new Error("Emoji asset is not a valid SVG document");
+  }
+
+  // 이미지 팩의 SVG도 외부에서 받은 파일이므로 허용 목록에 없는 내용은 제거
+  const rejected = sanitizeSvg(doc);
+  if (rejected.length > 0) {
+    console.warn(
+      "Removed from emoji asset:",
+      formatRejectedContent(rejected).join(", ")
+    );
+  }
+
+  const viewBox =
+    root.getAttribute("viewBox") ||
+    `0 0 ${parseFloat(root.getAttribute("width") || "") || width} ${
+      parseFloat(root.getAttribute("height") || "") || height
+    }`;
+  const serializer = new XMLSerializer();
+  const content = Array.from(root.childNodes)
+    .map((node) => serializer.serializeToString(node))
+    .join("");
+
+  return withContentIds(
+    xml`<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" fill="none" xmlns="http://www.w3.org/2000/svg">
+  <svg width="${width}" height="${height}" viewBox="${viewBox}" preserveAspectRatio="xMidYMid meet">${rawXml(content)}</svg>
+</svg>`,
+    idPrefix
+  );
+};
@@ -0,0 +1,258 @@
+// 번들된 컬러 이모지 폰트나 이미지 파일로 서버에서 이모지를 래스터 이미지로 렌더링하는 유틸리티
+// 사용자 OS의 이모지 폰트와 무관하게 항상 같은 결과를 만든다
+import { createCanvas, loadImage, registerFont } from "canvas";
+import sharp from "sharp";
+import { MAX_SVG_DIMENSION } from "./api-contract";
+import { getFileHash, withDiskCache } from "./disk-cache";
+import {
+  resolveEmojiAsset,
+  resolveSourceFont,
+  type EmojiAssetFormat,
+  type EmojiSource,
+} from "./emoji-source";
+import {
+  DEFAULT_RASTER_FORMAT,
+  RASTER_FORMAT_INFO,
+  type RasterFormat,
+} from "./raster-format";
+import type { TextMeasurer } from "./svg-emoji";
+
+// 번들 폰트를 등록할 때 사용하는 글꼴 이름 (시스템 폰트와 겹치지 않도록 별도 이름 사용)
+const BUNDLED_FONT_FAMILY = "Bundled Emoji";
+
+// 래스터 해상도 제한 (픽셀, 높이 기준, 너비도 최대값을 넘지 않음)
+const MIN_RESOLUTION = 16;
+const MAX_RESOLUTION = 1024;
+
+// 이미 등록한 폰트 경로와 글꼴 이름
+const registeredFonts = new Map<string, string>();
+
+// 렌더링 결과
+export interface EmojiRaster {
+  data: Buffer;
+  width: number;
+  height: number;
+  format?: RasterFormat; // 인코딩한 이미지 형식 (없으면 PNG)
+  assetFormat?: EmojiAssetFormat; // 이미지 파일에서 렌더링한 경우 원본 형식
+  cacheHit?: boolean; // 디스크 캐시에서 가져온 경우 true
+}
+
+// 폰트 파일을 canvas에 한 번만 등록
+const ensureFontRegistered = (fontPath: string): string => {
+  let family = registeredFonts.get(fontPath);
+  if (!family) {
+    family = `${BUNDLED_FONT_FAMILY} ${registeredFonts.size + 1}`;
+    registerFont(fontPath, { family });
+    registeredFonts.set(fontPath, family);
+  }
+  return family;
+};
+
+// 이모지를 지정한 픽셀 크기의 PNG로 렌더링
+// 실제 글리프 영역을 측정해 캔버스 안에 비율을 유지하며 가운데 배치한다
+export function renderEmojiPng(
+  emoji: string,
+  width: number,
+  height: number,
+  fontPath: string
+): EmojiRaster {
+  const family = ensureFontRegistered(fontPath);
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext("2d");
+
+  // 캔버스 높이 기준으로 먼저 측정한 뒤 글리프가 영역에 맞도록 크기 조정
+  const baseSize = height;
+  ctx.font = `${baseSize}px "${family}"`;
+  const metrics = ctx.measureText(emoji);
+  const glyphWidth =
+    metrics.actualBoundingBoxLeft + metrics.actualBoundingBoxRight ||
+    metrics.width;
+  const glyphHeight =
+    metrics.actualBoundingBoxAscent + metrics.actualBoundingBoxDescent ||
+    baseSize;
+  const scale = Math.min(width / glyphWidth, height / glyphHeight);
+
+  const fontSize = baseSize * scale;
+  ctx.font = `${fontSize}px "${family}"`;
+  ctx.textBaseline = "alphabetic";
+  ctx.textAlign = "left";
+
+  // 측정한 글리프 영역의 가운데를 캔버스 가운데에 맞춤
+  const left = metrics.actualBoundingBoxLeft * scale;
+  const ascent = metrics.actualBoundingBoxAscent * scale;
+  const x = (width - glyphWidth * scale) / 2 + left;
+  const y = (height - glyphHeight * scale) / 2 + ascent;
+  ctx.fillText(emoji, x, y);
+
+  return {
+    data: canvas.toBuffer("image/png"),
+    width,
+    height,
+  };
+}
+
+// 코드포인트별 이모지 이미지 파일(SVG/PNG)을 지정한 픽셀 크기의 PNG로 렌더링
+// 이미지 비율을 유지하며 캔버스 가운데에 배치한다
+export async function renderEmojiImagePng(
+  imagePath: string,
+  width: number,
+  height: number
+): Promise<EmojiRaster> {
+  const image = await loadImage(imagePath);
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext("2d");
+
+  const scale = Math.min(width / image.width, height / image.height);
+  const drawWidth = image.width * scale;
+  const drawHeight = image.height * scale;
+  ctx.drawImage(
+    image,
+    (width - drawWidth) / 2,
+    (height - drawHeight) / 2,
+    drawWidth,
+    drawHeight
+  );
+
+  return {
+    data: canvas.toBuffer("image/png"),
+    width,
+    height,
+  };
+}
+
+// 래스터 인코딩 옵션 (quality를 지정하지 않으면 형식별 기본값)
+export interface RasterEncodeOptions {
+  format?: RasterFormat;
+  quality?: number;
+}
+
+// 렌더링한 PNG를 지정한 형식으로 인코딩 (PNG는 그대로 반환)
+export async function encodeRaster(
+  png: Buffer,
+  format: RasterFormat,
+  quality?: number
+): Promise<Buffer> {
+  if (format === "png") {
+    return png;
+  }
+  const image = sharp(png);
+  const options = {
+    quality: quality ?? RASTER_FORMAT_INFO[format].defaultQuality,
+  };
+  return format === "webp"
+    ? image.webp(options).toBuffer()
+    : image.avif(options).toBuffer();
+}
+
+// 클라이언트가 보낸 PNG를 확인하고 지정한 형식으로 인코딩
+// PNG가 아니거나 읽을 수 없는 이미지, 너비나 높이가 MAX_SVG_DIMENSION을 넘는 이미지면 null
+export async function encodeClientPng(
+  png: Buffer,
+  format: RasterFormat,
+  quality?: number
+): Promise<Buffer | null> {
+  try {
+    const metadata = await sharp(png).metadata();
+    if (
+      metadata.format !== "png" ||
+      !metadata.width ||
+      !metadata.height ||
+      metadata.width > MAX_SVG_DIMENSION ||
+      metadata.height > MAX_SVG_DIMENSION
+    ) {
+      return null;
+    }
+    return await encodeRaster(png, format, quality);
+  } catch (_error) {
+    return null;
+  }
+}
+
+// 선택한 스타일의 폰트나 이미지로 이모지를 렌더링해 지정한 형식으로 인코딩
+// resolution은 래스터 높이, 너비는 비율에 맞춤
+// 이미지 기반 스타일에 해당 이모지 파일이 없으면 null
+// 결과는 (이모지, 원본 파일 해시, 형식, 품질, 크기) 기준으로 디스크에 캐시한다
+export async function renderSourceEmojiRaster(
+  emoji: string,
+  source: EmojiSource,
+  width: number,
+  height: number,
+  resolution: number,
+  { format = DEFAULT_RASTER_FORMAT, quality }: RasterEncodeOptions = {}
+): Promise<EmojiRaster | null> {
+  let rasterHeight = Math.round(
+    Math.min(Math.max(resolution, MIN_RESOLUTION), MAX_RESOLUTION)
+  );
+  let rasterWidth = Math.max(1, Math.round((rasterHeight * width) / height));
+  // 가로로 매우 긴 영역은 너비를 제한하고 높이를 비율에 맞춰 줄임
+  if (rasterWidth > MAX_RESOLUTION) {
+    rasterWidth = MAX_RESOLUTION;
+    rasterHeight = Math.max(1, Math.round((MAX_RESOLUTION * height) / width));
+  }
+
+  const cacheKey = {
+    kind: "raster",
+    emoji,
+    format,
+    // 무손실 형식은 품질이 없으므로 키에 넣지 않음 (기존 PNG 캐시 유지)
+    ...(format !== "png" && {
+      quality: quality ?? RASTER_FORMAT_INFO[format].defaultQuality,
+    }),
+    width: rasterWidth,
+    height: rasterHeight,
+  };
+
+  if (source.kind === "font") {
+    const fontPath = resolveSourceFont(source);
+    const { data, cacheHit } = await withDiskCache(
+      { ...cacheKey, source: getFileHash(fontPath) },
+      async () =>
+        encodeRaster(
+          renderEmojiPng(emoji, rasterWidth, rasterHeight, fontPath).data,
+          format,
+          quality
+        )
+    );
+    return {
+      data,
+      width: rasterWidth,
+      height: rasterHeight,
+      format,
+      cacheHit,
+    };
+  }
+
+  // PNG 팩은 해상도가 고정되어 있으므로 확대에 유리한 SVG를 먼저 찾음
+  const asset = resolveEmojiAsset(source, emoji, ["svg", "png"]);
+  if (!asset) {
+    return null;
+  }
+  const { data, cacheHit } = await withDiskCache(
+    { ...cacheKey, source: getFileHash(asset.path) },
+    async () => {
+      console.log(`Rendering emoji image from: ${asset.path}`);
+      return encodeRaster(
+        (await renderEmojiImagePng(asset.path, rasterWidth, rasterHeight)).data,
+        format,
+        quality
+      );
+    }
+  );
+  return {
+    data,
+    width: rasterWidth,
+    height: rasterHeight,
+    format,
+    assetFormat: asset.format,
+    cacheHit,
+  };
+}
+
+// node-canvas로 일반 텍스트 폭을 측정하는 함수 만들기 (서버 측 레이아웃 계산용)
+export const createServerTextMeasurer = (): TextMeasurer => {
+  const context = createCanvas(1, 1).getContext("2d");
+  return (text, font) => {
+    context.font = font;
+    return context.measureText(text).width;
+  };
+};
@@ -0,0 +1,133 @@
+// 이모지 디자인 세트별 원본 데이터 소스
+// 각 스타일은 컬러 폰트 파일 또는 코드포인트별 SVG/PNG 이미지 디렉토리로 구성된다
+import fs from "fs";
+import path from "path";
+import type { EmojiStyle } from "./emoji-styles";
+
+// 컬러 폰트 기반 소스
+export interface FontEmojiSource {
+  kind: "font";
+  style: EmojiStyle;
+  fontPath: string; // 서브셋/래스터 변환에 사용하는 컬러 폰트
+  vectorFontPath: string; // 벡터 변환에 사용하는 COLR/SVG-in-OT 폰트
+}
+
+// 코드포인트별 이미지 파일 기반 소스
+// `${directory}/${format}/${파일 이름}.${format}` 경로에서 이미지를 찾는다
+export interface AssetEmojiSource {
+  kind: "assets";
+  style: EmojiStyle;
+  directory: string;
+  formats: EmojiAssetFormat[]; // 디렉토리에 들어 있는 이미지 형식
+  fileNameCase: "lower" | "upper"; // 파일 이름의 16진수 대소문자
+}
+
+export type EmojiSource = FontEmojiSource | AssetEmojiSource;
+
+export type EmojiAssetFormat = "svg" | "png";
+
+// 찾은 이미지 파일
+export interface EmojiAsset {
+  path: string;
+  format: EmojiAssetFormat;
+}
+
+const EMOJI_SOURCES: Record<EmojiStyle, EmojiSource> = {
+  noto: {
+    kind: "font",
+    style: "noto",
+    fontPath: "public/fonts/NotoColorEmoji-Regular.ttf",
+    vectorFontPath: "public/fonts/Noto-COLRv1.ttf",
+  },
+  twemoji: {
+    kind: "font",
+    style: "twemoji",
+    fontPath: "public/fonts/Twemoji.Mozilla.ttf",
+    vectorFontPath: "public/fonts/Twemoji.Mozilla.ttf",
+  },
+  openmoji: {
+    kind: "assets",
+    style: "openmoji",
+    directory: "public/emoji/openmoji",
+    formats: ["svg", "png"],
+    fileNameCase: "upper",
+  },
+  fluent: {
+    kind: "assets",
+    style: "fluent",
+    directory: "public/emoji/fluent",
+    formats: ["svg", "png"],
+    fileNameCase: "lower",
+  },
+};
+
+const EMOJI_PRESENTATION_SELECTOR = 0xfe0f;
+
+export const getEmojiSource = (style: EmojiStyle): EmojiSource =>
+  EMOJI_SOURCES[style];
+
+// 폰트 기반 소스의 폰트 파일 절대 경로 (파일이 없으면 에러)
+export const resolveSourceFont = (
+  source: FontEmojiSource,
+  usage: "subset" | "vector" = "subset"
+): string => {
+  const fontPath = path.join(
+    process.cwd(),
+    usage === "vector" ? source.vectorFontPath : source.fontPath
+  );
+  if (!fs.existsSync(fontPath)) {
+    throw new Error(`Font file not found: ${fontPath}`);
+  }
+  return fontPath;
+};
+
+// 이모지에 해당하는 이미지 파일 이름 후보
+// 이미지 팩마다 VS16(U+FE0F) 포함 여부가 달라 전체 시퀀스와 VS16을 뺀 시퀀스를 모두 시도한다
+const getAssetFileNames = (
+  emoji: string,
+  fileNameCase: AssetEmojiSource["fileNameCase"]
+): string[] => {
+  const codePoints = Array.from(emoji).map((char) => char.codePointAt(0) ?? 0);
+  const toName = (values: number[]) => {
+    const name = values.map((value) => value.toString(16)).join("-");
+    return fileNameCase === "upper" ? name.toUpperCase() : name;
+  };
+
+  const names = [toName(codePoints)];
+  const withoutSelector = codePoints.filter(
+    (value) => value !== EMOJI_PRESENTATION_SELECTOR
+  );
+  if (withoutSelector.length !== codePoints.length) {
+    names.push(toName(withoutSelector));
+  }
+  return names;
+};
+
+// 이미지 기반 소스에서 이모지 파일 찾기
+// formats 순서대로 우선순위를 두며, 찾지 못하면 null
+export const resolveEmojiAsset = (
+  source: AssetEmojiSource,
+  emoji: string,
+  formats: EmojiAssetFormat[] = source.formats
+): EmojiAsset | null => {
+  const fileNames = getAssetFileNames(emoji, source.fileNameCase);
+
+  for (const format of formats) {
+    if (!source.formats.includes(format)) {
+      continue;
+    }
+    for (const fileName of fileNames) {
+      const assetPath = path.join(
+        process.cwd(),
+        source.directory,
+        format,
+        `${fileName}.${format}`
+      );
+      if (fs.existsSync(assetPath)) {
+        return { path: assetPath, format };
+      }
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,33 @@
+// 선택 가능한 이모지 디자인 세트 목록
+// 클라이언트와 서버가 함께 사용하므로 파일 시스템에 의존하지 않는다
+
+export type EmojiStyle = "noto" | "twemoji" | "openmoji" | "fluent";
+
+export const DEFAULT_EMOJI_STYLE: EmojiStyle = "noto";
+
+export const EMOJI_STYLE_INFO: Record<
+  EmojiStyle,
+  { label: string; description: string }
+> = {
+  noto: {
+    label: "Noto",
+    description: "Google Noto Color Emoji (Android)",
+  },
+  twemoji: {
+    label: "Twemoji",
+    description: "Twitter Twemoji (Web)",
+  },
+  openmoji: {
+    label: "OpenMoji",
+    description: "OpenMoji open source emoji",
+  },
+  fluent: {
+    label: "Fluent",
+    description: "Microsoft Fluent Emoji (Windows)",
+  },
+};
+
+export const EMOJI_STYLES = Object.keys(EMOJI_STYLE_INFO) as EmojiStyle[];
+
+export const isEmojiStyle = (value: unknown): value is EmojiStyle =>
+  typeof value === "string" && value in EMOJI_STYLE_INFO;
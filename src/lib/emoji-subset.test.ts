@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { EMOJI_CORPUS } from "@/test/emoji-corpus";
+import { hasFont, NOTO_FONT_PATH } from "@/test/helpers";
+import { getResidentFont } from "./font-registry";
+import {
+  createFontSubset,
+  EmojiSubsetError,
+  getFontSubset,
+  resolveEmojiGlyphs,
+  verifyEmojiSubset,
+} from "./emoji-subset";
+
+const EMOJI_ENTRIES = EMOJI_CORPUS.filter((entry) => entry.isEmoji);
+
+// WOFF2 파일 시그니처
+const WOFF2_SIGNATURE = "wOF2";
+
+describe.skipIf(!hasFont(NOTO_FONT_PATH))("emoji subset (Noto)", () => {
+  const getFont = () => getResidentFont(NOTO_FONT_PATH).font;
+
+  it.each(EMOJI_ENTRIES)("$name resolves to color glyphs", (entry) => {
+    const [glyphs, ...rest] = resolveEmojiGlyphs(getFont(), entry.text);
+    expect(rest).toEqual([]);
+    expect(glyphs.sequence).toBe(entry.text);
+    expect(
+      glyphs.codePoints
+        .map((cp) => `U+${cp.toString(16).toUpperCase()}`)
+        .join(" ")
+    ).toBe(entry.codePoints);
+    expect(glyphs.glyphIds.length).toBeGreaterThan(0);
+    expect(glyphs.glyphIds).not.toContain(0);
+    // 시퀀스는 구성 이모지가 아니라 합자 글리프 하나로 그려진다
+    if (entry.ligature) {
+      expect(glyphs.glyphIds).toHaveLength(1);
+      expect(glyphs.inputGlyphs.length).toBeGreaterThan(1);
+    }
+  });
+
+  it("splits a string into one sequence per grapheme cluster", () => {
+    const sequences = resolveEmojiGlyphs(getFont(), "🇰🇷👍🏽1️⃣");
+    expect(sequences.map((sequence) => sequence.sequence)).toEqual([
+      "🇰🇷",
+      "👍🏽",
+      "1️⃣",
+    ]);
+  });
+
+  it("creates a verified WOFF2 subset for the whole corpus", async () => {
+    const data = Buffer.from(
+      await createFontSubset(
+        EMOJI_ENTRIES.map((entry) => entry.text),
+        NOTO_FONT_PATH
+      ),
+      "base64"
+    );
+    expect(data.subarray(0, 4).toString("latin1")).toBe(WOFF2_SIGNATURE);
+    expect(data.length).toBeLessThan(
+      getResidentFont(NOTO_FONT_PATH).data.length
+    );
+  });
+
+  it("reports sequences the subset cannot render", async () => {
+    const data = Buffer.from(
+      await createFontSubset(["📆"], NOTO_FONT_PATH),
+      "base64"
+    );
+    const sequences = resolveEmojiGlyphs(getFont(), "😀");
+
+    const error = await verifyEmojiSubset(data, sequences, new Map()).catch(
+      (error: unknown) => error
+    );
+    expect(error).toBeInstanceOf(EmojiSubsetError);
+    expect((error as EmojiSubsetError).report).toEqual([
+      expect.objectContaining({
+        sequence: "😀",
+        codePoints: [{ codePoint: "U+1F600", glyphId: 0 }],
+        problems: expect.arrayContaining(["missing-glyph"]),
+      }),
+    ]);
+  });
+
+  it("reuses cached subsets for the same emoji set", async () => {
+    const first = await getFontSubset(["👩🏻‍💻", "📆"], NOTO_FONT_PATH);
+    const second = await getFontSubset(["📆", "👩🏻‍💻"], NOTO_FONT_PATH);
+    expect(first.cacheHit).toBe(false);
+    expect(second).toEqual({ data: first.data, cacheHit: true });
+  });
+});
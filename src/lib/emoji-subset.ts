@@ -0,0 +1,323 @@
+// 컬러 이모지 폰트에서 이모지에 필요한 글리프만 남긴 WOFF2 서브셋을 만드는 유틸리티
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { type Font as FontkitFont } from "@pdf-lib/fontkit";
+import * as wawoff2 from "wawoff2";
+import { getFileHash, withDiskCache } from "./disk-cache";
+import { getColorGlyphFormats, type ColorTableFormat } from "./color-tables";
+import { getResidentFont, subsetResidentFont } from "./font-registry";
+import { createFontkitFont, type LigatureSubstitution } from "./font-tables";
+import { readSfntTables } from "./sfnt";
+
+// 이모지 시퀀스 하나의 글리프 정보
+export interface EmojiGlyphs {
+  sequence: string;
+  codePoints: number[];
+  inputGlyphs: number[]; // cmap으로 찾은 글리프 (셰이핑 입력)
+  glyphIds: number[]; // GSUB 셰이핑 후 실제로 그려지는 글리프
+}
+
+// 서브셋 검증에서 발견한 문제
+//   missing-glyph     코드포인트가 .notdef(0번 글리프)로 매핑되거나 셰이핑 결과에 .notdef가 있음
+//   no-color-data     그려지는 글리프에 CBDT/sbix/COLR/SVG 컬러 데이터가 없음
+//   shaping-mismatch  서브셋으로 셰이핑한 글리프가 원본 폰트의 결과와 다름
+export type EmojiSubsetProblem =
+  "missing-glyph" | "no-color-data" | "shaping-mismatch";
+
+// 코드포인트 하나의 검증 결과
+export interface CodePointReport {
+  codePoint: string; // 예: U+1F600
+  glyphId: number; // 서브셋 cmap이 매핑한 글리프 (0이면 .notdef)
+}
+
+// 이모지 시퀀스 하나의 검증 결과
+export interface EmojiSequenceReport {
+  sequence: string;
+  codePoints: CodePointReport[];
+  glyphIds: number[]; // 서브셋으로 셰이핑한 글리프
+  expectedGlyphIds: number[]; // 원본 폰트 결과를 서브셋 ID로 바꾼 글리프
+  colorFormats: ColorTableFormat[]; // 그려지는 글리프에 들어 있는 컬러 데이터 형식
+  problems: EmojiSubsetProblem[];
+}
+
+// 서브셋이 요청한 이모지를 그리지 못할 때 발생하는 오류 (시퀀스별 검증 결과 포함)
+export class EmojiSubsetError extends Error {
+  readonly report: EmojiSequenceReport[];
+
+  constructor(message: string, report: EmojiSequenceReport[]) {
+    super(message);
+    this.name = "EmojiSubsetError";
+    this.report = report;
+  }
+}
+
+// wawoff2는 결과를 wasm 메모리 위의 뷰로 돌려주므로 다음 변환이 덮어쓰기 전에 복사해야 한다
+// 동시에 만드는 서브셋끼리 결과를 덮어쓰지 않도록 변환을 하나씩 순서대로 실행
+let woff2Queue: Promise<unknown> = Promise.resolve();
+const runWoff2 = (convert: () => Promise<Uint8Array>): Promise<Buffer> => {
+  const result = woff2Queue.then(async () => Buffer.from(await convert()));
+  woff2Queue = result.catch(() => undefined);
+  return result;
+};
+
+// 폰트가 매핑하지 않아도 셰이핑에서 무시되는 이형 선택자 (VS15, VS16)
+const VARIATION_SELECTORS = [0xfe0e, 0xfe0f];
+
+const graphemeSegmenter = new Intl.Segmenter(undefined, {
+  granularity: "grapheme",
+});
+
+const formatCodePoints = (codePoints: number[]) =>
+  codePoints.map((cp) => "U+" + cp.toString(16).toUpperCase()).join(" ");
+
+// 이모지 문자열을 시퀀스(자소 클러스터) 단위로 나누고
+// 폰트의 GSUB 합자 데이터로 셰이핑해 각 시퀀스가 최종적으로 그려지는 글리프 찾기
+// 예: 👨‍👩‍👧은 구성 이모지 세 개가 아니라 가족 글리프 하나, 🇰🇷은 국기 글리프 하나
+export function resolveEmojiGlyphs(
+  font: FontkitFont,
+  emoji: string
+): EmojiGlyphs[] {
+  return Array.from(graphemeSegmenter.segment(emoji), ({ segment }) => {
+    const codePoints = Array.from(segment, (char) => char.codePointAt(0)!);
+    const inputGlyphs = codePoints.flatMap((cp) => {
+      const gid = font.glyphForCodePoint(cp).id;
+      return gid === 0 && VARIATION_SELECTORS.includes(cp) ? [] : [gid];
+    });
+    const glyphIds = font.layout(segment).glyphs.map((glyph) => glyph.id);
+
+    if (glyphIds.includes(0)) {
+      console.warn(
+        `Warning: Font has no glyph for ${formatCodePoints(codePoints)}`
+      );
+    }
+    return { sequence: segment, codePoints, inputGlyphs, glyphIds };
+  });
+}
+
+// 서브셋에 넣을 합자 치환 (여러 글리프가 하나로 합쳐지는 시퀀스만, 원본 글리프 ID 기준)
+const getSequenceLigatures = (
+  sequences: EmojiGlyphs[]
+): LigatureSubstitution[] => {
+  const ligatures = new Map<string, LigatureSubstitution>();
+  for (const { inputGlyphs, glyphIds } of sequences) {
+    if (inputGlyphs.length > 1 && glyphIds.length === 1) {
+      ligatures.set(inputGlyphs.join(","), {
+        components: inputGlyphs,
+        glyph: glyphIds[0],
+      });
+    }
+  }
+  return Array.from(ligatures.values());
+};
+
+// WOFF2로 압축한 서브셋을 다시 열어 요청한 시퀀스를 모두 그릴 수 있는지 확인
+// 모든 코드포인트가 .notdef가 아닌 글리프로 매핑되고, 셰이핑 결과가 원본 폰트와 같고,
+// 그려지는 글리프마다 컬러 데이터가 있어야 통과한다. 실패하면 시퀀스별 결과를 담아 EmojiSubsetError 발생
+export async function verifyEmojiSubset(
+  woff2Buffer: Uint8Array,
+  sequences: EmojiGlyphs[],
+  glyphMap: Map<number, number>
+): Promise<EmojiSequenceReport[]> {
+  const ttfBuffer = await runWoff2(() => wawoff2.decompress(woff2Buffer));
+  const subsetFont = createFontkitFont(ttfBuffer);
+  const tables = readSfntTables(ttfBuffer);
+
+  const report = sequences.map(
+    ({ sequence, codePoints, glyphIds: originalGlyphIds }) => {
+      const glyphIds = subsetFont
+        .layout(sequence)
+        .glyphs.map((glyph) => glyph.id);
+      const expectedGlyphIds = originalGlyphIds.map(
+        (gid) => glyphMap.get(gid) ?? 0
+      );
+      const codePointReports = codePoints.map((cp) => ({
+        codePoint: formatCodePoints([cp]),
+        glyphId: subsetFont.glyphForCodePoint(cp).id,
+      }));
+      const glyphFormats = glyphIds.map((gid) =>
+        getColorGlyphFormats(tables, gid)
+      );
+
+      const problems: EmojiSubsetProblem[] = [];
+      if (
+        glyphIds.includes(0) ||
+        codePointReports.some(
+          ({ glyphId }, index) =>
+            glyphId === 0 && !VARIATION_SELECTORS.includes(codePoints[index])
+        )
+      ) {
+        problems.push("missing-glyph");
+      }
+      if (glyphFormats.some((formats) => formats.length === 0)) {
+        problems.push("no-color-data");
+      }
+      if (expectedGlyphIds.join(",") !== glyphIds.join(",")) {
+        problems.push("shaping-mismatch");
+      }
+
+      return {
+        sequence,
+        codePoints: codePointReports,
+        glyphIds,
+        expectedGlyphIds,
+        colorFormats: Array.from(new Set(glyphFormats.flat())),
+        problems,
+      };
+    }
+  );
+
+  const failures = report.filter((entry) => entry.problems.length > 0);
+  if (failures.length > 0) {
+    throw new EmojiSubsetError(
+      `Subset font cannot render ${failures.length} of ${
+        report.length
+      } emoji sequences: ${failures
+        .map(
+          (entry) =>
+            `${entry.codePoints
+              .map(({ codePoint }) => codePoint)
+              .join(" ")} (${entry.problems.join(", ")})`
+        )
+        .join("; ")}`,
+      report
+    );
+  }
+  return report;
+}
+
+// 폰트 서브셋팅 함수 - 원래 worker 스크립트에서 수행하던 작업을 직접 수행
+export async function createEmojiSubset(
+  emoji: string,
+  fontPath: string
+): Promise<string> {
+  return createFontSubset([emoji], fontPath);
+}
+
+// 여러 이모지를 모두 담은 하나의 폰트 서브셋 생성 (글리프 ID 합집합)
+// 일괄 변환에서 모든 SVG가 같은 폰트 파일 하나를 참조하도록 할 때 사용
+export async function createFontSubset(
+  emojis: string[],
+  fontPath: string
+): Promise<string> {
+  try {
+    // 작업 디렉토리 확인 (배포 환경에서는 메모리에서만 작업)
+    let outputPath = "";
+    const isDevEnv = process.env.NODE_ENV === "development";
+
+    if (isDevEnv) {
+      const tempDir = path.join(process.cwd(), "temp");
+      if (!fs.existsSync(tempDir)) {
+        fs.mkdirSync(tempDir, { recursive: true });
+      }
+      outputPath = path.join(tempDir, `emoji-${Date.now()}.woff2`);
+    }
+
+    // 레지스트리에 상주하는 폰트 사용 (처음 한 번만 읽고 파싱)
+    const font = getResidentFont(fontPath).font;
+
+    // 모든 이모지 시퀀스를 셰이핑해서 최종 글리프 찾기
+    const sequences = emojis.flatMap((emoji) =>
+      resolveEmojiGlyphs(font, emoji)
+    );
+    const glyphIds = Array.from(
+      new Set(sequences.flatMap((sequence) => sequence.glyphIds))
+    );
+    // 합자의 구성 글리프는 셰이핑 입력으로만 필요하므로 윤곽선 없이 넣음
+    const placeholderIds = Array.from(
+      new Set(sequences.flatMap((sequence) => sequence.inputGlyphs))
+    ).filter((gid) => !glyphIds.includes(gid));
+
+    console.log(`Found ${glyphIds.length} glyph IDs for emoji`);
+    console.log(`Glyph IDs: ${glyphIds.join(", ")}`);
+    console.log(
+      `Code points: ${formatCodePoints(
+        sequences.flatMap((sequence) => sequence.codePoints)
+      )}`
+    );
+
+    // 시퀀스의 코드포인트가 원본 폰트에서 매핑되는 글리프 (서브셋 cmap)
+    const cmap = new Map<number, number>();
+    for (const cp of sequences.flatMap((sequence) => sequence.codePoints)) {
+      const gid = font.glyphForCodePoint(cp).id;
+      if (gid !== 0) {
+        cmap.set(cp, gid);
+      }
+    }
+
+    // 상주 폰트 데이터에서 필요한 글리프와 컬러 테이블만 남긴 TTF 생성
+    // 시퀀스를 하나의 글리프로 합치는 데 필요한 합자 룩업만 GSUB로 추가
+    const ligatures = getSequenceLigatures(sequences);
+    const subset = subsetResidentFont(fontPath, {
+      glyphIds,
+      placeholderIds,
+      cmap,
+      ligatures,
+    });
+    const ttfBufferArray = subset.data;
+    console.log(`Font subset created (${ligatures.length} sequence ligatures)`);
+    console.log(`TTF buffer size: ${ttfBufferArray.byteLength} bytes`);
+
+    // 개발 환경에서만 TTF 파일 저장 (디버깅용)
+    let ttfPath = "";
+    if (isDevEnv && outputPath) {
+      ttfPath = outputPath.replace(/\.[^.]+$/, ".ttf");
+      fs.writeFileSync(ttfPath, ttfBufferArray);
+      console.log(`TTF file saved to: ${ttfPath}`);
+    }
+
+    // WOFF2로 변환
+    const woff2Buffer = await runWoff2(() => wawoff2.compress(ttfBufferArray));
+    console.log(`WOFF2 buffer size: ${woff2Buffer.length} bytes`);
+
+    // 압축한 결과물로 모든 시퀀스가 컬러 글리프로 그려지는지 확인
+    await verifyEmojiSubset(woff2Buffer, sequences, subset.glyphMap);
+
+    // 개발 환경에서 TTF 파일 삭제 (불필요한 디스크 공간 확보)
+    if (isDevEnv && ttfPath && fs.existsSync(ttfPath)) {
+      fs.unlinkSync(ttfPath);
+      console.log(`TTF file deleted: ${ttfPath}`);
+    }
+
+    // Base64 인코딩
+    const base64Data = Buffer.from(woff2Buffer).toString("base64");
+    console.log(`Base64 data length: ${base64Data.length} characters`);
+
+    return base64Data;
+  } catch (error) {
+    console.error("Error creating emoji font:", error);
+    throw error;
+  }
+}
+
+// 공유 서브셋 파일 이름 (같은 이모지 묶음이면 항상 같은 이름)
+export const getSharedSubsetFileName = (
+  style: string,
+  emojis: string[]
+): string => {
+  const hash = crypto
+    .createHash("sha1")
+    .update(Array.from(new Set(emojis)).sort().join("\n"))
+    .digest("hex")
+    .slice(0, 12);
+  return `emoji-font-${style}-${hash}.woff2`;
+};
+
+// 디스크 캐시를 거쳐 폰트 서브셋 가져오기 (Base64)
+// 같은 이모지 묶음과 같은 폰트 파일이면 서버를 재시작해도 다시 만들지 않는다
+export async function getFontSubset(
+  emojis: string[],
+  fontPath: string
+): Promise<{ data: string; cacheHit: boolean }> {
+  const { data, cacheHit } = await withDiskCache(
+    {
+      kind: "font-subset",
+      emojis: Array.from(new Set(emojis)).sort(),
+      font: getFileHash(fontPath),
+      format: "woff2",
+      verified: true,
+    },
+    async () => Buffer.from(await createFontSubset(emojis, fontPath), "base64")
+  );
+  return { data: data.toString("base64"), cacheHit };
+}
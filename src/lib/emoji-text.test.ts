@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { EMOJI_CORPUS } from "@/test/emoji-corpus";
+import { getEmojiDebugInfo } from "./converter";
+import {
+  containsEmoji,
+  isEmojiCluster,
+  isEmojiText,
+  MAX_EMOJI_TEXT_LENGTH,
+  segmentEmojiText,
+  splitGraphemes,
+} from "./emoji-text";
+
+describe("emoji corpus", () => {
+  it.each(EMOJI_CORPUS)("$name is a single grapheme cluster", ({ text }) => {
+    expect(splitGraphemes(text)).toEqual([text]);
+  });
+
+  it.each(EMOJI_CORPUS)("$name emoji detection", ({ text, isEmoji }) => {
+    expect(isEmojiCluster(text)).toBe(isEmoji);
+    expect(isEmojiText(text)).toBe(isEmoji);
+  });
+
+  it.each(EMOJI_CORPUS)("$name code points", ({ text, codePoints }) => {
+    expect(getEmojiDebugInfo(text).codePointsStr).toBe(codePoints);
+  });
+});
+
+describe("segmentEmojiText", () => {
+  it("splits emoji clusters out of regular text", () => {
+    const segments = segmentEmojiText("회의 📆 with 👩🏻‍💻👨‍👩‍👧‍👦 © 2024");
+    expect(segments.map(({ text, isEmoji }) => [text, isEmoji])).toEqual([
+      ["회의 ", false],
+      ["📆", true],
+      [" with ", false],
+      ["👩🏻‍💻", true],
+      ["👨‍👩‍👧‍👦", true],
+      [" © 2024", false],
+    ]);
+  });
+
+  it("keeps each emoji cluster in its own segment", () => {
+    const segments = segmentEmojiText("🇰🇷🇯🇵1️⃣#️⃣");
+    expect(segments.every((segment) => segment.isEmoji)).toBe(true);
+    expect(segments.map((segment) => segment.text)).toEqual([
+      "🇰🇷",
+      "🇯🇵",
+      "1️⃣",
+      "#️⃣",
+    ]);
+  });
+
+  it("groups consecutive regular clusters", () => {
+    const [segment] = segmentEmojiText("ab☺™");
+    expect(segment).toEqual({
+      text: "ab☺™",
+      isEmoji: false,
+      clusters: ["a", "b", "☺", "™"],
+    });
+  });
+});
+
+describe("isEmojiText", () => {
+  it("rejects text mixed with emoji", () => {
+    expect(containsEmoji("hi 👋")).toBe(true);
+    expect(isEmojiText("hi 👋")).toBe(false);
+    expect(isEmojiText("<b>👋</b>")).toBe(false);
+  });
+
+  it("rejects non-strings, empty and overly long values", () => {
+    expect(isEmojiText(undefined)).toBe(false);
+    expect(isEmojiText(0x1f600)).toBe(false);
+    expect(isEmojiText("")).toBe(false);
+    expect(isEmojiText("😀".repeat(MAX_EMOJI_TEXT_LENGTH / 2))).toBe(true);
+    expect(isEmojiText("😀".repeat(MAX_EMOJI_TEXT_LENGTH / 2 + 1))).toBe(false);
+  });
+});
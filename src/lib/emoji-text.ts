@@ -0,0 +1,83 @@
+// 텍스트를 자소 클러스터 단위로 나누고 이모지 클러스터와 일반 문자를 구분하는 유틸리티
+// tsconfig 타깃에서 u 플래그 정규식 리터럴을 쓸 수 없어 RegExp 생성자를 사용한다
+
+const EMOJI_PRESENTATION = new RegExp("\\p{Emoji_Presentation}", "u");
+const EXTENDED_PICTOGRAPHIC = new RegExp("\\p{Extended_Pictographic}", "u");
+const EMOJI_MODIFIER = new RegExp("\\p{Emoji_Modifier}", "u");
+const REGIONAL_INDICATOR = new RegExp("\\p{Regional_Indicator}", "u");
+const KEYCAP_SEQUENCE = /^[0-9#*]\uFE0F?\u20E3$/;
+
+const TEXT_PRESENTATION_SELECTOR = "\uFE0E";
+const EMOJI_PRESENTATION_SELECTOR = "\uFE0F";
+const ZERO_WIDTH_JOINER = "\u200D";
+
+// 텍스트 런을 나눈 조각
+export interface TextSegment {
+  text: string;
+  isEmoji: boolean;
+  clusters: string[]; // 조각을 이루는 자소 클러스터
+}
+
+// 문자열을 자소 클러스터 단위로 분리 (ZWJ 시퀀스, 국기, 키캡 등을 하나로 취급)
+export const splitGraphemes = (text: string): string[] => {
+  if (typeof Intl !== "undefined" && "Segmenter" in Intl) {
+    const segmenter = new Intl.Segmenter(undefined, {
+      granularity: "grapheme",
+    });
+    return Array.from(segmenter.segment(text), (part) => part.segment);
+  }
+  return Array.from(text);
+};
+
+// 자소 클러스터가 이모지로 그려져야 하는지 판단
+// ©, ™, 숫자처럼 기본이 텍스트 표현인 문자는 VS16(U+FE0F)이 붙은 경우에만 이모지로 취급한다
+export const isEmojiCluster = (cluster: string): boolean => {
+  if (cluster.includes(TEXT_PRESENTATION_SELECTOR)) {
+    return false;
+  }
+  if (KEYCAP_SEQUENCE.test(cluster) || REGIONAL_INDICATOR.test(cluster)) {
+    return true;
+  }
+  if (EMOJI_PRESENTATION.test(cluster) || EMOJI_MODIFIER.test(cluster)) {
+    return true;
+  }
+  return (
+    EXTENDED_PICTOGRAPHIC.test(cluster) &&
+    (cluster.includes(EMOJI_PRESENTATION_SELECTOR) ||
+      cluster.includes(ZERO_WIDTH_JOINER))
+  );
+};
+
+export const containsEmoji = (text: string): boolean =>
+  splitGraphemes(text).some(isEmojiCluster);
+
+// 텍스트를 이모지 조각과 일반 텍스트 조각으로 분리
+// 이모지는 클러스터마다 하나의 조각이 되고, 연속된 일반 문자는 하나의 조각으로 묶인다
+export function segmentEmojiText(text: string): TextSegment[] {
+  const segments: TextSegment[] = [];
+
+  for (const cluster of splitGraphemes(text)) {
+    const isEmoji = isEmojiCluster(cluster);
+    const previous = segments[segments.length - 1];
+
+    if (!isEmoji && previous && !previous.isEmoji) {
+      previous.text += cluster;
+      previous.clusters.push(cluster);
+    } else {
+      segments.push({ text: cluster, isEmoji, clusters: [cluster] });
+    }
+  }
+
+  return segments;
+}
+
+// 요청으로 받는 이모지 문자열의 최대 길이 (UTF-16 코드 유닛, 태그 시퀀스 국기도 충분히 들어가는 길이)
+export const MAX_EMOJI_TEXT_LENGTH = 64;
+
+// 요청 값이 이모지 자소 클러스터로만 이루어진 문자열인지 확인
+// 마크업이나 일반 텍스트가 SVG에 들어가지 않도록 변환 API가 입력을 검사할 때 사용한다
+export const isEmojiText = (value: unknown): value is string =>
+  typeof value === "string" &&
+  value.length > 0 &&
+  value.length <= MAX_EMOJI_TEXT_LENGTH &&
+  splitGraphemes(value).every(isEmojiCluster);
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { expectFidelity } from "@/test/fidelity";
+import {
+  hasFont,
+  NOTO_FONT_PATH,
+  parseSvg,
+  readSample,
+  serializeSvg,
+  TWEMOJI_FONT_PATH,
+} from "@/test/helpers";
+import { convert } from "./converter";
+import { fontStrategy } from "./converter/font-strategy";
+import { renderEmoji, type StrategyOptions } from "./converter/strategy";
+import { vectorStrategy } from "./converter/vector-strategy";
+import { measureFidelity } from "./fidelity-render";
+import type { OutputStrategy } from "./converter/strategy";
+
+const SAMPLES = ["home.svg", "staff.svg"];
+
+const convertWith = async (
+  svg: string,
+  strategy: OutputStrategy,
+  options: StrategyOptions
+): Promise<string> =>
+  (
+    await convert(svg, {
+      convertEmoji: (emoji, box) => renderEmoji(strategy, emoji, box, options),
+      parseSvg,
+      serializeSvg,
+    })
+  ).content;
+
+describe.skipIf(!hasFont(TWEMOJI_FONT_PATH))(
+  "measureFidelity (Twemoji)",
+  () => {
+    const options = { style: "twemoji" as const, fallbackStyles: [] };
+
+    it.each(SAMPLES)("foreignObject output of %s matches", async (name) => {
+      const original = readSample(name);
+      const converted = await convertWith(original, fontStrategy, {
+        ...options,
+        embedMode: "inline",
+      });
+      const report = await expectFidelity(original, converted, options);
+      expect(report.score).toBeGreaterThan(0.9);
+    });
+
+    it.each(SAMPLES)("vector output of %s matches", async (name) => {
+      const original = readSample(name);
+      const converted = await convertWith(original, vectorStrategy, options);
+      await expectFidelity(original, converted, options);
+    });
+
+    it("flags an emoji moved away from the text position", async () => {
+      const original = readSample("home.svg");
+      const converted = await convertWith(
+        original.replace('x="1"', 'x="4"'),
+        vectorStrategy,
+        options
+      );
+      const { report } = await measureFidelity(original, converted, options);
+      expect(report.problems).toContain("offset");
+      expect(report.offset!.x).toBeGreaterThan(2);
+    });
+
+    it("flags a conversion that lost the emoji", async () => {
+      const original = readSample("staff.svg");
+      const converted = await convertWith(original, fontStrategy, {
+        ...options,
+        embedMode: "none",
+      });
+      // 시스템 이모지 폰트로 보여 주는 foreignObject는 번들 폰트로 그려 비교하므로 비워서 확인
+      const { report } = await measureFidelity(
+        original,
+        converted.replace(/<foreignObject[\s\S]*?<\/foreignObject>/, ""),
+        options
+      );
+      expect(report.problems).toContain("missing-emoji");
+      expect(report.passed).toBe(false);
+    });
+  }
+);
+
+describe.skipIf(!hasFont(NOTO_FONT_PATH) || !hasFont(TWEMOJI_FONT_PATH))(
+  "measureFidelity (Noto)",
+  () => {
+    it("draws the original with the bitmap font", async () => {
+      const original = readSample("home.svg");
+      const converted = await convertWith(original, fontStrategy, {
+        style: "noto",
+        embedMode: "inline",
+      });
+      const { referenceStyles, report } = await measureFidelity(
+        original,
+        converted,
+        { style: "noto" }
+      );
+      expect(referenceStyles).toEqual({ "📆": "noto" });
+      expect(report.referenceBox).not.toBeNull();
+    });
+
+    it("flags a different emoji design", async () => {
+      const original = readSample("staff.svg");
+      const converted = await convertWith(original, vectorStrategy, {
+        style: "twemoji",
+        fallbackStyles: [],
+      });
+      const { report } = await measureFidelity(original, converted, {
+        style: "noto",
+      });
+      expect(report.problems).toContain("difference");
+    });
+  }
+);
@@ -0,0 +1,306 @@
+// 변환 결과가 원본 Figma 내보내기와 같게 보이는지 래스터화해서 비교하는 시각적 회귀 도구 (서버 전용)
+// 원본의 이모지 텍스트는 번들 폰트의 글리프를 텍스트 기준선에 그려 Figma 내보내기의 모습을 재현하고,
+// 원본, 변환 결과, 이모지를 뺀 원본을 sharp(librsvg)로 같은 크기로 래스터화해 compareRenders로 비교한다
+// librsvg는 foreignObject를 그리지 못하므로 이모지만 담은 foreignObject는
+// 브라우저가 배치하는 위치(flex 가운데 정렬, line-height 1)에 같은 번들 폰트 글리프를 그려 대신한다
+import { XMLSerializer } from "@xmldom/xmldom";
+import sharp from "sharp";
+import { loadColorFont, renderEmojiVector } from "./color-glyph";
+import { getBitmapGlyph } from "./color-tables";
+import { convert } from "./converter";
+import { parseSvgDocument } from "./converter/parse";
+import {
+  checkEmojiSource,
+  EmojiSourceError,
+  getEmojiStyleChain,
+  type EmojiSourceAttempt,
+} from "./emoji-fallback";
+import { getEmojiSource, resolveSourceFont } from "./emoji-source";
+import { DEFAULT_EMOJI_STYLE, type EmojiStyle } from "./emoji-styles";
+import { isEmojiText } from "./emoji-text";
+import {
+  compareRenders,
+  DEFAULT_FIDELITY_THRESHOLDS,
+  type FidelityReport,
+  type FidelityThresholds,
+  type RgbaImage,
+} from "./fidelity";
+import { getResidentFont, getResidentFontTables } from "./font-registry";
+import {
+  EMOJI_METRICS,
+  SVG_NS,
+  type EmojiConverter,
+  type TextMeasurer,
+} from "./svg-emoji";
+import { rawXml, sanitizeSvg, xml } from "./svg-sanitize";
+
+// 래스터화 크기 (긴 변 기준 픽셀, 작은 아이콘도 충분한 해상도로 비교하도록 배율 제한 안에서 키움)
+const RENDER_SIZE = 256;
+const MAX_RENDER_SCALE = 16;
+
+// 번들 폰트로 그린 이모지 (원점은 기준선의 왼쪽 끝, 단위는 픽셀)
+interface EmojiGlyphDrawing {
+  markup: string;
+  style: EmojiStyle;
+  advance: number;
+  ascent: number;
+  descent: number; // 기준선 아래 길이 (양수)
+}
+
+export interface FidelityOptions {
+  style?: EmojiStyle; // 원본을 그릴 스타일 (폰트가 없거나 그리지 못하면 fallbackStyles 순서대로)
+  fallbackStyles?: EmojiStyle[];
+  thresholds?: FidelityThresholds;
+  measureText?: TextMeasurer; // 변환할 때 사용한 것과 같은 텍스트 측정 함수
+}
+
+export interface FidelityResult {
+  report: FidelityReport;
+  referenceStyles: Record<string, string>; // 원본의 이모지마다 그린 스타일
+  renderWidth: number;
+  renderHeight: number;
+  scale: number; // SVG 좌표 한 단위당 픽셀 수
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// 컬러 벡터 폰트(COLR, SVG)의 글리프를 도형으로 그리기
+const drawVectorGlyphs = (
+  fontPath: string,
+  emoji: string,
+  fontSize: number
+): Omit<EmojiGlyphDrawing, "style"> => {
+  const run = renderEmojiVector(loadColorFont(fontPath), emoji);
+  const scale = fontSize / run.unitsPerEm;
+  return {
+    markup: xml`<g transform="matrix(${round(scale)} 0 0 ${round(
+      -scale
+    )} 0 0)">${rawXml(run.markup)}</g>`,
+    advance: run.advanceWidth * scale,
+    ascent: run.ascent * scale,
+    descent: -run.descent * scale,
+  };
+};
+
+// 비트맵 폰트(CBDT)의 글리프 PNG를 이미지로 그리기 (그릴 수 없는 글리프가 있으면 null)
+const drawBitmapGlyphs = (
+  fontPath: string,
+  emoji: string,
+  fontSize: number
+): Omit<EmojiGlyphDrawing, "style"> | null => {
+  const font = getResidentFont(fontPath).font;
+  const tables = getResidentFontTables(fontPath);
+  const unit = fontSize / font.unitsPerEm;
+  const run = font.layout(emoji);
+  const images: string[] = [];
+  let penX = 0;
+
+  for (let index = 0; index < run.glyphs.length; index++) {
+    const glyph = run.glyphs[index];
+    const position = run.positions[index];
+    // 변형 선택자 등 폭이 없는 .notdef는 건너뜀
+    if (glyph.id === 0 && position.xAdvance === 0) {
+      continue;
+    }
+    const bitmap = getBitmapGlyph(tables, glyph.id);
+    if (!bitmap) {
+      return null;
+    }
+    const scale = fontSize / bitmap.ppem;
+    images.push(
+      xml`<image x="${round(
+        penX + position.xOffset * unit + bitmap.bearingX * scale
+      )}" y="${round(-bitmap.bearingY * scale)}" width="${round(
+        bitmap.width * scale
+      )}" height="${round(
+        bitmap.height * scale
+      )}" href="data:image/png;base64,${bitmap.png.toString("base64")}"/>`
+    );
+    penX += position.xAdvance * unit;
+  }
+
+  return {
+    markup: images.join(""),
+    advance: penX,
+    ascent: font.ascent * unit,
+    descent: -font.descent * unit,
+  };
+};
+
+// 스타일 체인에서 폰트로 이모지를 그릴 수 있는 첫 번째 스타일로 그리기
+// 원본은 텍스트이므로 폰트가 없는 이미지 팩 스타일은 건너뛴다
+const drawEmoji = (
+  emoji: string,
+  fontSize: number,
+  styles: EmojiStyle[]
+): EmojiGlyphDrawing => {
+  const skipped: EmojiSourceAttempt[] = [];
+  for (const style of styles) {
+    const source = getEmojiSource(style);
+    if (source.kind !== "font") {
+      skipped.push({ style, reason: "style does not provide a font" });
+      continue;
+    }
+    if (!checkEmojiSource(source, emoji, "vector")) {
+      return {
+        ...drawVectorGlyphs(
+          resolveSourceFont(source, "vector"),
+          emoji,
+          fontSize
+        ),
+        style,
+      };
+    }
+    const reason = checkEmojiSource(source, emoji, "raster");
+    const drawing = reason
+      ? null
+      : drawBitmapGlyphs(resolveSourceFont(source), emoji, fontSize);
+    if (drawing) {
+      return { ...drawing, style };
+    }
+    skipped.push({ style, reason: reason || "no bitmap glyph" });
+  }
+  throw new EmojiSourceError(
+    `No bundled emoji font can draw ${emoji}: ${skipped
+      .map(({ style, reason }) => `${style} (${reason})`)
+      .join(", ")}`,
+    skipped
+  );
+};
+
+// 원본의 이모지를 번들 폰트로 그리는 변환 함수
+// 글꼴 크기와 기준선은 텍스트 배치(EMOJI_METRICS)를 따르고, 글리프는 폰트 메트릭 그대로 영역 밖까지 그린다
+const createReferenceConverter =
+  (styles: EmojiStyle[]): EmojiConverter =>
+  async (emoji, { width, height }) => {
+    const fontSize = height / (EMOJI_METRICS.ascent + EMOJI_METRICS.descent);
+    const glyph = drawEmoji(emoji, fontSize, styles);
+    return {
+      svgContent: xml`<svg xmlns="${SVG_NS}" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" overflow="visible"><g transform="translate(0 ${round(
+        EMOJI_METRICS.ascent * fontSize
+      )})">${rawXml(glyph.markup)}</g></svg>`,
+      source: glyph.style,
+    };
+  };
+
+// 이모지 자리를 비워 두는 변환 함수 (이모지가 그려진 픽셀을 찾는 기준 렌더링)
+const emptyConverter: EmojiConverter = async (_emoji, { width, height }) => ({
+  svgContent: xml`<svg xmlns="${SVG_NS}" width="${width}" height="${height}"/>`,
+});
+
+// 이모지만 담은 foreignObject를 브라우저가 그리는 위치에 번들 폰트 글리프로 바꾸기
+// 변환 템플릿(src/lib/emoji-output.ts)은 div를 flex로 가운데 정렬하고 line-height를 1로 두므로
+// 글리프는 가로로 가운데, 기준선은 영역 가운데에서 (ascent - descent) / 2만큼 아래에 놓인다
+const replaceEmojiForeignObjects = (doc: Document, styles: EmojiStyle[]) => {
+  for (const foreignObject of Array.from(
+    doc.getElementsByTagNameNS(SVG_NS, "foreignObject")
+  )) {
+    const emoji = (foreignObject.textContent || "").trim();
+    if (!isEmojiText(emoji)) {
+      continue;
+    }
+    const number = (name: string) =>
+      parseFloat(foreignObject.getAttribute(name) || "") || 0;
+    const width = number("width");
+    const height = number("height");
+    const fontSize =
+      Array.from(foreignObject.getElementsByTagName("*"))
+        .map((element) =>
+          (element.getAttribute("style") || "").match(/font-size:\s*([\d.]+)px/)
+        )
+        .filter((match) => match)
+        .map((match) => parseFloat(match![1]))
+        .pop() || height;
+
+    const glyph = drawEmoji(emoji, fontSize, styles);
+    const left = number("x") + (width - glyph.advance) / 2;
+    const baseline =
+      number("y") + height / 2 + (glyph.ascent - glyph.descent) / 2;
+    const group = parseSvgDocument(
+      xml`<svg xmlns="${SVG_NS}"><g transform="translate(${round(left)} ${round(
+        baseline
+      )})">${rawXml(glyph.markup)}</g></svg>`
+    ).documentElement.firstChild!;
+    foreignObject.parentNode!.replaceChild(
+      doc.importNode(group, true),
+      foreignObject
+    );
+  }
+};
+
+// 문서 크기에 맞는 래스터화 배율
+const getRenderScale = (doc: Document): number => {
+  const root = doc.documentElement;
+  const viewBox = (root.getAttribute("viewBox") || "")
+    .split(/[\s,]+/)
+    .map(Number);
+  const width = parseFloat(root.getAttribute("width") || "") || viewBox[2];
+  const height = parseFloat(root.getAttribute("height") || "") || viewBox[3];
+  const size = Math.max(width || 0, height || 0);
+  return size > 0 ? Math.min(MAX_RENDER_SCALE, RENDER_SIZE / size) : 1;
+};
+
+// SVG를 RGBA 픽셀로 래스터화 (SVG 좌표 한 단위가 scale 픽셀)
+export async function rasterizeSvg(
+  svg: string,
+  scale: number
+): Promise<RgbaImage> {
+  const { data, info } = await sharp(Buffer.from(svg), { density: 72 * scale })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+// 원본 SVG와 변환 결과 SVG의 충실도 계산
+export async function measureFidelity(
+  original: string,
+  converted: string,
+  {
+    style = DEFAULT_EMOJI_STYLE,
+    fallbackStyles,
+    thresholds = DEFAULT_FIDELITY_THRESHOLDS,
+    measureText,
+  }: FidelityOptions = {}
+): Promise<FidelityResult> {
+  const styles = getEmojiStyleChain(style, fallbackStyles);
+  const serializer = new XMLSerializer();
+  const serializeSvg = (doc: Document) => serializer.serializeToString(doc);
+  const options = { parseSvg: parseSvgDocument, serializeSvg, measureText };
+
+  const reference = await convert(original, {
+    ...options,
+    convertEmoji: createReferenceConverter(styles),
+  });
+  const base = await convert(original, {
+    ...options,
+    convertEmoji: emptyConverter,
+  });
+
+  const convertedDoc = parseSvgDocument(converted);
+  sanitizeSvg(convertedDoc);
+  replaceEmojiForeignObjects(convertedDoc, styles);
+
+  const scale = getRenderScale(parseSvgDocument(reference.content));
+  const [referenceImage, convertedImage, baseImage] = await Promise.all([
+    rasterizeSvg(reference.content, scale),
+    rasterizeSvg(serializeSvg(convertedDoc), scale),
+    rasterizeSvg(base.content, scale),
+  ]);
+
+  return {
+    report: compareRenders(
+      {
+        reference: referenceImage,
+        converted: convertedImage,
+        base: baseImage,
+        scale,
+      },
+      thresholds
+    ),
+    referenceStyles: reference.emojiSources,
+    renderWidth: referenceImage.width,
+    renderHeight: referenceImage.height,
+    scale,
+  };
+}
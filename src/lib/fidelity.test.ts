@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { compareRenders, describeFidelity, type RgbaImage } from "./fidelity";
+
+const SIZE = 40;
+
+// 흰 배경에 색 사각형을 그린 이미지
+const createImage = (square?: {
+  x: number;
+  y: number;
+  size: number;
+  color: number[];
+}): RgbaImage => {
+  const data = new Uint8Array(SIZE * SIZE * 4).fill(255);
+  if (square) {
+    for (let y = square.y; y < square.y + square.size; y++) {
+      for (let x = square.x; x < square.x + square.size; x++) {
+        data.set([...square.color, 255], (y * SIZE + x) * 4);
+      }
+    }
+  }
+  return { data, width: SIZE, height: SIZE };
+};
+
+const RED = [220, 40, 40];
+const reference = createImage({ x: 10, y: 10, size: 16, color: RED });
+const base = createImage();
+
+describe("compareRenders", () => {
+  it("passes identical renders", () => {
+    const report = compareRenders({
+      reference,
+      converted: reference,
+      base,
+      scale: 2,
+    });
+    expect(report).toMatchObject({
+      score: 1,
+      difference: 0,
+      referenceBox: { x: 5, y: 5, width: 8, height: 8 },
+      offset: { x: 0, y: 0, width: 0, height: 0 },
+      relativeOffset: 0,
+      problems: [],
+      passed: true,
+    });
+  });
+
+  it("tolerates a one pixel shift", () => {
+    const report = compareRenders({
+      reference,
+      converted: createImage({ x: 11, y: 10, size: 16, color: RED }),
+      base,
+      scale: 1,
+    });
+    expect(report.difference).toBe(0);
+    expect(report.offset).toEqual({ x: 1, y: 0, width: 0, height: 0 });
+    expect(report.passed).toBe(true);
+  });
+
+  it("flags emoji drawn away from the original position", () => {
+    const report = compareRenders({
+      reference,
+      converted: createImage({ x: 14, y: 12, size: 16, color: RED }),
+      base,
+      scale: 1,
+    });
+    expect(report.offset).toEqual({ x: 4, y: 2, width: 0, height: 0 });
+    expect(report.relativeOffset).toBe(0.25);
+    expect(report.problems).toContain("offset");
+    expect(report.passed).toBe(false);
+  });
+
+  it("flags different colors", () => {
+    const report = compareRenders({
+      reference,
+      converted: createImage({ x: 10, y: 10, size: 16, color: [40, 40, 220] }),
+      base,
+      scale: 1,
+    });
+    expect(report.problems).toEqual(["difference"]);
+    expect(report.score).toBeLessThan(0.5);
+  });
+
+  it("flags missing emoji", () => {
+    const report = compareRenders({
+      reference,
+      converted: base,
+      base,
+      scale: 1,
+    });
+    expect(report.convertedBox).toBeNull();
+    expect(report.problems).toEqual(["missing-emoji", "difference"]);
+  });
+
+  it("applies custom thresholds", () => {
+    const converted = createImage({ x: 14, y: 12, size: 16, color: RED });
+    const report = compareRenders(
+      { reference, converted, base, scale: 1 },
+      { maxDifference: 1, maxOffset: 0.5 }
+    );
+    expect(report.passed).toBe(true);
+  });
+
+  it("rejects renders of different sizes", () => {
+    expect(() =>
+      compareRenders({
+        reference,
+        converted: { data: new Uint8Array(4), width: 1, height: 1 },
+        base,
+        scale: 1,
+      })
+    ).toThrow("Cannot compare 40x40 and 1x1 renders");
+  });
+
+  it("summarizes the report", () => {
+    const report = compareRenders({
+      reference,
+      converted: createImage({ x: 14, y: 12, size: 16, color: RED }),
+      base,
+      scale: 1,
+    });
+    expect(describeFidelity(report)).toMatch(
+      /^score \d+%; offset x 4, y 2, width 0, height 0 \(25% of emoji size\); drift: .*offset/
+    );
+  });
+});
@@ -0,0 +1,315 @@
+// 변환 결과가 원본 Figma 내보내기와 같게 보이는지 나타내는 충실도(fidelity) 점수
+// 같은 크기로 래스터화한 원본과 변환 결과를 비교하며, 클라이언트와 서버가 함께 사용한다
+// 래스터화는 src/lib/fidelity-render.ts 참고
+
+// 차이를 판단하는 기준
+export interface FidelityThresholds {
+  maxDifference: number; // 이모지 영역의 지각 차이 (0~1)
+  maxOffset: number; // 이모지 영역의 위치, 크기 차이 (원본 이모지 영역의 긴 변에 대한 비율)
+}
+
+export const DEFAULT_FIDELITY_THRESHOLDS: FidelityThresholds = {
+  maxDifference: 0.12,
+  maxOffset: 0.1,
+};
+
+// 기준을 넘은 항목
+//   difference     이모지 영역의 색이 많이 다름
+//   offset         이모지 영역의 위치나 크기가 다름
+//   missing-emoji  한쪽에만 이모지가 그려짐
+export type FidelityProblem = "difference" | "offset" | "missing-emoji";
+
+// 이모지가 그려진 영역 (SVG 좌표)
+export interface InkBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FidelityReport {
+  score: number; // 1 - difference (1이면 같아 보임)
+  difference: number; // 이모지 영역의 평균 색 차이 (CIE76 ΔE / 100)
+  referenceBox: InkBox | null;
+  convertedBox: InkBox | null;
+  offset: InkBox | null; // 변환 결과 영역 - 원본 영역
+  relativeOffset: number | null; // offset의 가장 큰 절댓값 / 원본 영역의 긴 변
+  problems: FidelityProblem[];
+  passed: boolean;
+}
+
+// RGBA 픽셀 (sharp의 raw 출력과 같은 배치)
+export interface RgbaImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+// 사람이 구분할 수 있는 최소 색 차이 (CIE76 ΔE)
+const JUST_NOTICEABLE_DIFFERENCE = 2.3;
+
+// 색 차이를 비교하는 해상도 (SVG 좌표 한 단위당 픽셀, 고해상도 화면에서 보는 크기)
+// 이모지 영역은 래스터화한 해상도 그대로 찾고, 색 차이는 이 해상도로 줄여서 비교한다
+const PERCEPTUAL_SCALE = 2;
+
+// 이미지를 factor x factor 픽셀 블록의 평균으로 축소
+const downsample = (image: RgbaImage, factor: number): RgbaImage => {
+  if (factor <= 1) {
+    return image;
+  }
+  const width = Math.floor(image.width / factor);
+  const height = Math.floor(image.height / factor);
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let channel = 0; channel < 4; channel++) {
+        let sum = 0;
+        for (let dy = 0; dy < factor; dy++) {
+          for (let dx = 0; dx < factor; dx++) {
+            const source =
+              ((y * factor + dy) * image.width + x * factor + dx) * 4;
+            sum += image.data[source + channel];
+          }
+        }
+        data[(y * width + x) * 4 + channel] = Math.round(
+          sum / (factor * factor)
+        );
+      }
+    }
+  }
+  return { data, width, height };
+};
+
+// 흰 배경에 합성한 픽셀을 CIE L*a*b*로 변환 (D65)
+const toLab = ({ data, width, height }: RgbaImage): Float32Array => {
+  const lab = new Float32Array(width * height * 3);
+  const linear = (value: number) => {
+    const c = value / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  };
+  const f = (t: number) =>
+    t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 / 116) * t + 16 / 116;
+
+  for (let i = 0; i < width * height; i++) {
+    const alpha = data[i * 4 + 3] / 255;
+    const [r, g, b] = [0, 1, 2].map((channel) =>
+      linear(data[i * 4 + channel] * alpha + 255 * (1 - alpha))
+    );
+    const x = f((0.4124 * r + 0.3576 * g + 0.1805 * b) / 0.95047);
+    const y = f(0.2126 * r + 0.7152 * g + 0.0722 * b);
+    const z = f((0.0193 * r + 0.1192 * g + 0.9505 * b) / 1.08883);
+    lab[i * 3] = 116 * y - 16;
+    lab[i * 3 + 1] = 500 * (x - y);
+    lab[i * 3 + 2] = 200 * (y - z);
+  }
+  return lab;
+};
+
+const deltaE = (a: Float32Array, i: number, b: Float32Array, j: number) =>
+  Math.hypot(
+    a[i * 3] - b[j * 3],
+    a[i * 3 + 1] - b[j * 3 + 1],
+    a[i * 3 + 2] - b[j * 3 + 2]
+  );
+
+// 픽셀과 상대 이미지의 주변 3x3 픽셀 중 가장 가까운 색의 차이
+// 안티에일리어싱이나 1픽셀 미만의 위치 차이는 차이로 보지 않는다
+const nearestDeltaE = (
+  a: Float32Array,
+  b: Float32Array,
+  width: number,
+  height: number,
+  x: number,
+  y: number
+): number => {
+  let nearest = Infinity;
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (nx >= 0 && ny >= 0 && nx < width && ny < height) {
+        nearest = Math.min(
+          nearest,
+          deltaE(a, y * width + x, b, ny * width + nx)
+        );
+      }
+    }
+  }
+  return nearest;
+};
+
+// 이모지를 뺀 렌더링(base)과 색이 다른 픽셀 = 이모지가 그려진 픽셀
+const getInkMask = (image: Float32Array, base: Float32Array): Uint8Array => {
+  const mask = new Uint8Array(image.length / 3);
+  for (let i = 0; i < mask.length; i++) {
+    mask[i] = deltaE(image, i, base, i) > JUST_NOTICEABLE_DIFFERENCE ? 1 : 0;
+  }
+  return mask;
+};
+
+const getInkBox = (
+  mask: Uint8Array,
+  width: number,
+  scale: number
+): InkBox | null => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -1;
+  let maxY = -1;
+  mask.forEach((value, i) => {
+    if (value) {
+      const x = i % width;
+      const y = Math.floor(i / width);
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    }
+  });
+  if (maxX < 0) {
+    return null;
+  }
+  return {
+    x: minX / scale,
+    y: minY / scale,
+    width: (maxX - minX + 1) / scale,
+    height: (maxY - minY + 1) / scale,
+  };
+};
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const roundBox = (box: InkBox | null): InkBox | null =>
+  box && {
+    x: round(box.x),
+    y: round(box.y),
+    width: round(box.width),
+    height: round(box.height),
+  };
+
+// 같은 크기로 래스터화한 세 이미지를 비교
+//   reference  원본 (이모지를 번들 폰트로 그림)
+//   converted  변환 결과
+//   base       원본에서 이모지만 뺀 렌더링 (이모지 영역을 찾는 데 사용)
+// scale은 SVG 좌표 한 단위당 픽셀 수
+export function compareRenders(
+  {
+    reference,
+    converted,
+    base,
+    scale,
+  }: {
+    reference: RgbaImage;
+    converted: RgbaImage;
+    base: RgbaImage;
+    scale: number;
+  },
+  thresholds: FidelityThresholds = DEFAULT_FIDELITY_THRESHOLDS
+): FidelityReport {
+  const { width, height } = reference;
+  for (const image of [converted, base]) {
+    if (image.width !== width || image.height !== height) {
+      throw new Error(
+        `Cannot compare ${width}x${height} and ${image.width}x${image.height} renders`
+      );
+    }
+  }
+
+  const fullBaseLab = toLab(base);
+  const referenceMask = getInkMask(toLab(reference), fullBaseLab);
+  const convertedMask = getInkMask(toLab(converted), fullBaseLab);
+
+  // 어느 한쪽에라도 이모지가 그려진 픽셀에서만 차이를 평균 (작은 이모지가 큰 SVG에 묻히지 않도록)
+  const factor = Math.max(1, Math.floor(scale / PERCEPTUAL_SCALE));
+  const [referenceLab, convertedLab, baseLab] = [reference, converted, base]
+    .map((image) => downsample(image, factor))
+    .map(toLab);
+  const perceptualWidth = Math.floor(width / factor);
+  const perceptualHeight = Math.floor(height / factor);
+  const referenceInk = getInkMask(referenceLab, baseLab);
+  const convertedInk = getInkMask(convertedLab, baseLab);
+  let total = 0;
+  let count = 0;
+  for (let i = 0; i < referenceInk.length; i++) {
+    if (referenceInk[i] || convertedInk[i]) {
+      const x = i % perceptualWidth;
+      const y = Math.floor(i / perceptualWidth);
+      total += Math.max(
+        nearestDeltaE(
+          referenceLab,
+          convertedLab,
+          perceptualWidth,
+          perceptualHeight,
+          x,
+          y
+        ),
+        nearestDeltaE(
+          convertedLab,
+          referenceLab,
+          perceptualWidth,
+          perceptualHeight,
+          x,
+          y
+        )
+      );
+      count++;
+    }
+  }
+  const difference = count > 0 ? Math.min(1, total / count / 100) : 0;
+
+  const referenceBox = getInkBox(referenceMask, width, scale);
+  const convertedBox = getInkBox(convertedMask, width, scale);
+  const offset =
+    referenceBox && convertedBox
+      ? {
+          x: convertedBox.x - referenceBox.x,
+          y: convertedBox.y - referenceBox.y,
+          width: convertedBox.width - referenceBox.width,
+          height: convertedBox.height - referenceBox.height,
+        }
+      : null;
+  const relativeOffset =
+    offset && referenceBox
+      ? Math.max(...Object.values(offset).map(Math.abs)) /
+        Math.max(referenceBox.width, referenceBox.height)
+      : null;
+
+  const problems: FidelityProblem[] = [];
+  if (!referenceBox !== !convertedBox) {
+    problems.push("missing-emoji");
+  }
+  if (difference > thresholds.maxDifference) {
+    problems.push("difference");
+  }
+  if (relativeOffset !== null && relativeOffset > thresholds.maxOffset) {
+    problems.push("offset");
+  }
+
+  return {
+    score: round(1 - difference),
+    difference: round(difference),
+    referenceBox: roundBox(referenceBox),
+    convertedBox: roundBox(convertedBox),
+    offset: roundBox(offset),
+    relativeOffset: relativeOffset === null ? null : round(relativeOffset),
+    problems,
+    passed: problems.length === 0,
+  };
+}
+
+// 보고서를 한 줄로 요약 (배지 툴팁, 테스트 실패 메시지)
+export const describeFidelity = (report: FidelityReport): string => {
+  const parts = [`score ${Math.round(report.score * 100)}%`];
+  if (report.offset) {
+    const { x, y, width, height } = report.offset;
+    parts.push(
+      `offset x ${x}, y ${y}, width ${width}, height ${height} (${Math.round(
+        (report.relativeOffset ?? 0) * 100
+      )}% of emoji size)`
+    );
+  }
+  if (report.problems.length > 0) {
+    parts.push(`drift: ${report.problems.join(", ")}`);
+  }
+  return parts.join("; ");
+};
@@ -0,0 +1,164 @@
+// 이모지 폰트를 프로세스마다 한 번만 읽고 파싱해 메모리에 유지하는 레지스트리
+// 글리프 조회와 서브셋 생성이 요청마다 폰트 파일을 다시 읽고 파싱하지 않도록 상주 객체를 사용한다
+//
+// 환경 변수
+//   EMOJI_FONT_MEMORY_MAX_BYTES  상주 폰트가 사용할 최대 메모리 (기본값: 512MB), 넘으면 오래 사용하지 않은 폰트부터 해제
+import fs from "fs";
+import { type Font as FontkitFont } from "@pdf-lib/fontkit";
+import { LRUCache } from "lru-cache";
+import {
+  createFontkitFont,
+  subsetSfnt,
+  type SfntSubset,
+  type SfntSubsetOptions,
+} from "./font-tables";
+import { readSfntTables, type SfntTables } from "./sfnt";
+
+const DEFAULT_MAX_BYTES = 512 * 1024 * 1024;
+
+// 상주 폰트
+export interface ResidentFont {
+  path: string;
+  stamp: string; // 파일 크기와 수정 시각 (파일이 바뀌면 다시 읽음)
+  data: Buffer;
+  font: FontkitFont; // 글리프 조회와 셰이핑용
+  tables?: SfntTables; // 서브셋 생성용 테이블 (원본 데이터를 복사하지 않고 참조)
+  loadTimeMs: number;
+  memoryBytes: number; // 파일 크기와 파싱하며 늘어난 힙 크기의 합 (추정치)
+  loadedAt: number;
+  lastUsedAt: number;
+  uses: number;
+}
+
+// 진단용 상주 폰트 정보
+export interface ResidentFontStats {
+  path: string;
+  fullName: string | null;
+  fileBytes: number;
+  memoryBytes: number;
+  loadTimeMs: number;
+  loadedAt: string;
+  lastUsedAt: string;
+  uses: number;
+}
+
+export interface FontRegistryStats {
+  budgetBytes: number;
+  usedBytes: number;
+  fonts: ResidentFontStats[];
+}
+
+const getMaxBytes = (): number => {
+  const value = Number(process.env.EMOJI_FONT_MEMORY_MAX_BYTES);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_MAX_BYTES;
+};
+
+const residentFonts = new LRUCache<string, ResidentFont>({
+  maxSize: getMaxBytes(),
+  sizeCalculation: (entry) => Math.max(1, entry.memoryBytes),
+  dispose: (entry, fontPath, reason) => {
+    if (reason === "evict") {
+      console.log(`Font evicted from registry: ${fontPath}`);
+    }
+  },
+});
+
+const getFileStamp = (fontPath: string): string => {
+  const stats = fs.statSync(fontPath);
+  return `${stats.size}:${stats.mtimeMs}`;
+};
+
+// 파싱하며 늘어난 힙 크기 측정 (GC 때문에 정확하지 않으므로 음수는 0으로 처리)
+const measureLoad = <T>(load: () => T) => {
+  const startHeap = process.memoryUsage().heapUsed;
+  const startTime = Date.now();
+  const value = load();
+  return {
+    value,
+    timeMs: Date.now() - startTime,
+    heapBytes: Math.max(0, process.memoryUsage().heapUsed - startHeap),
+  };
+};
+
+// 레지스트리에 넣기 (예산보다 큰 폰트는 넣지 않고 이번 요청에서만 사용)
+const storeFont = (entry: ResidentFont) => {
+  // 같은 객체를 다시 넣으면 크기가 갱신되지 않으므로 지우고 새로 넣음
+  residentFonts.delete(entry.path);
+  if (entry.memoryBytes > getMaxBytes()) {
+    console.warn(
+      `Font ${entry.path} needs ${entry.memoryBytes} bytes, over the registry budget; it will not stay resident`
+    );
+    return;
+  }
+  residentFonts.set(entry.path, entry);
+};
+
+// 상주 폰트 가져오기 (없거나 파일이 바뀌었으면 읽어서 파싱)
+export const getResidentFont = (fontPath: string): ResidentFont => {
+  if (!fs.existsSync(fontPath)) {
+    throw new Error(`Font file not found: ${fontPath}`);
+  }
+
+  const stamp = getFileStamp(fontPath);
+  const resident = residentFonts.get(fontPath);
+  if (resident && resident.stamp === stamp) {
+    resident.lastUsedAt = Date.now();
+    resident.uses++;
+    return resident;
+  }
+
+  console.log(`Loading font into registry: ${fontPath}`);
+  const data = fs.readFileSync(fontPath);
+  const {
+    value: font,
+    timeMs,
+    heapBytes,
+  } = measureLoad(() => createFontkitFont(data));
+  console.log(`Font loaded: ${font.fullName} (${timeMs}ms)`);
+
+  const entry: ResidentFont = {
+    path: fontPath,
+    stamp,
+    data,
+    font,
+    loadTimeMs: timeMs,
+    memoryBytes: data.length + heapBytes,
+    loadedAt: Date.now(),
+    lastUsedAt: Date.now(),
+    uses: 1,
+  };
+  storeFont(entry);
+  return entry;
+};
+
+// 상주 폰트의 sfnt 테이블 (컬러 데이터 확인과 서브셋 생성용, 처음 사용할 때 나눔)
+export const getResidentFontTables = (fontPath: string): SfntTables => {
+  const resident = getResidentFont(fontPath);
+  if (!resident.tables) {
+    resident.tables = readSfntTables(resident.data);
+  }
+  return resident.tables;
+};
+
+// 상주 폰트에서 지정한 글리프만 남긴 TTF 만들기
+// 상주 데이터는 그대로 두고 필요한 글리프와 테이블만 새 폰트로 복사한다
+export const subsetResidentFont = (
+  fontPath: string,
+  options: SfntSubsetOptions
+): SfntSubset => subsetSfnt(getResidentFontTables(fontPath), options);
+
+// 진단 정보 (최근에 사용한 순서)
+export const getFontRegistryStats = (): FontRegistryStats => ({
+  budgetBytes: getMaxBytes(),
+  usedBytes: residentFonts.calculatedSize,
+  fonts: Array.from(residentFonts.values()).map((entry) => ({
+    path: entry.path,
+    fullName: entry.font.fullName,
+    fileBytes: entry.data.length,
+    memoryBytes: entry.memoryBytes,
+    loadTimeMs: entry.loadTimeMs,
+    loadedAt: new Date(entry.loadedAt).toISOString(),
+    lastUsedAt: new Date(entry.lastUsedAt).toISOString(),
+    uses: entry.uses,
+  })),
+});
@@ -0,0 +1,369 @@
+// OpenType(sfnt) 폰트를 테이블 단위로 읽고 필요한 글리프만 남긴 새 폰트를 쓰는 유틸리티
+// 컬러 비트맵(CBDT)처럼 glyf 테이블이 없는 폰트도 서브셋할 수 있도록 테이블을 직접 다룬다
+import fontkit, { type Font as FontkitFont } from "@pdf-lib/fontkit";
+import { getColorLayerGlyphs, subsetColorTables } from "./color-tables";
+import {
+  readSfntTables,
+  TableWriter,
+  writeSfnt,
+  type SfntTables,
+} from "./sfnt";
+
+// 합자 치환: components 글리프 시퀀스를 하나의 glyph로 바꿈
+export interface LigatureSubstitution {
+  components: number[];
+  glyph: number;
+}
+
+// 서브셋 옵션 (글리프 ID는 모두 원본 폰트 기준)
+export interface SfntSubsetOptions {
+  glyphIds: number[]; // 그려지는 글리프
+  placeholderIds?: number[]; // cmap 매핑과 셰이핑 입력으로만 쓰이는 글리프 (윤곽선과 이미지 없이 폭만 남김)
+  cmap: Map<number, number>; // 코드포인트 -> 글리프 ID
+  ligatures?: LigatureSubstitution[];
+}
+
+// 서브셋 결과
+export interface SfntSubset {
+  data: Buffer; // TTF
+  glyphMap: Map<number, number>; // 원본 글리프 ID -> 서브셋 글리프 ID
+}
+
+// 합자 치환만 담은 GSUB 테이블 생성
+// DFLT/latn 스크립트의 ccmp 기능으로 등록하므로 브라우저와 fontkit 모두 기본으로 적용한다
+export function buildLigatureGsub(ligatures: LigatureSubstitution[]): Buffer {
+  // 첫 글리프별로 묶고, 같은 글리프로 시작하면 긴 시퀀스를 먼저 검사하도록 정렬
+  const sets = new Map<number, LigatureSubstitution[]>();
+  for (const ligature of ligatures) {
+    const first = ligature.components[0];
+    sets.set(first, [...(sets.get(first) || []), ligature]);
+  }
+  const coverage = Array.from(sets.keys()).sort((a, b) => a - b);
+  coverage.forEach((gid) =>
+    sets.get(gid)!.sort((a, b) => b.components.length - a.components.length)
+  );
+
+  const writer = new TableWriter();
+
+  // GSUB 헤더 (버전 1.0)
+  writer.uint16(1).uint16(0);
+  const scriptListOffset = writer.placeholder();
+  const featureListOffset = writer.placeholder();
+  const lookupListOffset = writer.placeholder();
+
+  // ScriptList: DFLT와 latn이 같은 Script 테이블을 공유
+  const scriptList = writer.offset;
+  writer.patch(scriptListOffset, scriptList);
+  writer.uint16(2);
+  writer.tag("DFLT");
+  const dfltOffset = writer.placeholder();
+  writer.tag("latn");
+  const latnOffset = writer.placeholder();
+  const script = writer.offset - scriptList;
+  writer.patch(dfltOffset, script);
+  writer.patch(latnOffset, script);
+  // Script 테이블: 기본 LangSys가 바로 뒤에 옴
+  writer.uint16(4).uint16(0);
+  // LangSys: 필수 기능 없음, 0번 기능 사용
+  writer.uint16(0).uint16(0xffff).uint16(1).uint16(0);
+
+  // FeatureList: ccmp -> 0번 룩업
+  const featureList = writer.offset;
+  writer.patch(featureListOffset, featureList);
+  writer.uint16(1);
+  writer.tag("ccmp");
+  writer.uint16(8);
+  writer.uint16(0).uint16(1).uint16(0);
+
+  // LookupList: 합자 치환(타입 4) 룩업 하나
+  const lookupList = writer.offset;
+  writer.patch(lookupListOffset, lookupList);
+  writer.uint16(1).uint16(4);
+  writer.uint16(4).uint16(0).uint16(1).uint16(8);
+
+  // LigatureSubstFormat1
+  const subtable = writer.offset;
+  writer.uint16(1);
+  const coverageOffset = writer.placeholder();
+  writer.uint16(coverage.length);
+  const setOffsets = coverage.map(() => writer.placeholder());
+
+  coverage.forEach((gid, index) => {
+    const set = sets.get(gid)!;
+    const setStart = writer.offset;
+    writer.patch(setOffsets[index], setStart - subtable);
+    writer.uint16(set.length);
+    const ligatureOffsets = set.map(() => writer.placeholder());
+    set.forEach((ligature, ligatureIndex) => {
+      writer.patch(ligatureOffsets[ligatureIndex], writer.offset - setStart);
+      writer.uint16(ligature.glyph).uint16(ligature.components.length);
+      ligature.components.slice(1).forEach((component) => {
+        writer.uint16(component);
+      });
+    });
+  });
+
+  // Coverage 형식 1 (정렬된 글리프 목록)
+  writer.patch(coverageOffset, writer.offset - subtable);
+  writer.uint16(1).uint16(coverage.length);
+  coverage.forEach((gid) => writer.uint16(gid));
+
+  return writer.toBuffer();
+}
+
+// 코드포인트 -> 글리프 매핑으로 cmap 테이블 생성
+// BMP 문자는 형식 4(3,1), 전체 문자는 형식 12(3,10)로 기록한다
+const buildCmap = (mapping: Map<number, number>): Buffer => {
+  const entries = Array.from(mapping.entries()).sort((a, b) => a[0] - b[0]);
+  const bmp = entries.filter(([cp]) => cp < 0xffff);
+  const writer = new TableWriter();
+
+  writer.uint16(0).uint16(2);
+  writer.uint16(3).uint16(1);
+  const format4Offset = writer.offset;
+  writer.uint32(0);
+  writer.uint16(3).uint16(10);
+  const format12Offset = writer.offset;
+  writer.uint32(0);
+
+  // 형식 4: 문자마다 세그먼트 하나, 마지막은 0xFFFF 종료 세그먼트
+  writer.patch32(format4Offset, writer.offset);
+  const segments = [...bmp, [0xffff, 0] as [number, number]];
+  const segCount = segments.length;
+  const entrySelector = Math.floor(Math.log2(segCount));
+  const searchRange = 2 * 2 ** entrySelector;
+  writer
+    .uint16(4)
+    .uint16(16 + segCount * 8)
+    .uint16(0)
+    .uint16(segCount * 2)
+    .uint16(searchRange)
+    .uint16(entrySelector)
+    .uint16(segCount * 2 - searchRange);
+  segments.forEach(([cp]) => writer.uint16(cp));
+  writer.uint16(0);
+  segments.forEach(([cp]) => writer.uint16(cp));
+  segments.forEach(([cp, gid]) => writer.uint16(cp === 0xffff ? 1 : gid - cp));
+  segments.forEach(() => writer.uint16(0));
+
+  // 형식 12: 문자마다 그룹 하나
+  writer.patch32(format12Offset, writer.offset);
+  writer
+    .uint16(12)
+    .uint16(0)
+    .uint32(16 + entries.length * 12)
+    .uint32(0)
+    .uint32(entries.length);
+  entries.forEach(([cp, gid]) => writer.uint32(cp).uint32(cp).uint32(gid));
+
+  return writer.toBuffer();
+};
+
+// 복합 글리프 구성 요소 플래그
+const ARG_1_AND_2_ARE_WORDS = 0x0001;
+const WE_HAVE_A_SCALE = 0x0008;
+const MORE_COMPONENTS = 0x0020;
+const WE_HAVE_AN_X_AND_Y_SCALE = 0x0040;
+const WE_HAVE_A_TWO_BY_TWO = 0x0080;
+
+// 복합 글리프의 구성 요소 글리프 ID 위치 목록
+const getComponentPositions = (glyph: Buffer): number[] => {
+  if (glyph.length < 10 || glyph.readInt16BE(0) >= 0) {
+    return [];
+  }
+  const positions: number[] = [];
+  let offset = 10;
+  let flags = MORE_COMPONENTS;
+  while (flags & MORE_COMPONENTS) {
+    flags = glyph.readUInt16BE(offset);
+    positions.push(offset + 2);
+    offset += 4 + (flags & ARG_1_AND_2_ARE_WORDS ? 4 : 2);
+    if (flags & WE_HAVE_A_SCALE) {
+      offset += 2;
+    } else if (flags & WE_HAVE_AN_X_AND_Y_SCALE) {
+      offset += 4;
+    } else if (flags & WE_HAVE_A_TWO_BY_TWO) {
+      offset += 8;
+    }
+  }
+  return positions;
+};
+
+// glyf 테이블에서 글리프 하나의 데이터 읽기
+const createGlyphReader = (tables: SfntTables, numGlyphs: number) => {
+  const glyf = tables.get("glyf");
+  const loca = tables.get("loca");
+  if (!glyf || !loca) {
+    return null;
+  }
+  const longFormat = tables.get("head")!.readInt16BE(50) === 1;
+  const locate = (gid: number) =>
+    longFormat ? loca.readUInt32BE(gid * 4) : loca.readUInt16BE(gid * 2) * 2;
+  return (gid: number): Buffer =>
+    gid < numGlyphs
+      ? glyf.subarray(locate(gid), locate(gid + 1))
+      : Buffer.alloc(0);
+};
+
+// 서브셋 폰트에 그대로 복사하는 글리프 독립 테이블
+const COPIED_TABLES = ["name", "OS/2", "cvt ", "fpgm", "prep", "gasp"];
+
+// 지정한 글리프만 남긴 TrueType 폰트 만들기
+// 글리프 ID는 .notdef, glyphIds, placeholderIds 순서로 다시 매기며
+// 위치 조정(GPOS, kern)이나 세로 쓰기 테이블처럼 이모지에 필요 없는 테이블은 버린다
+export function subsetSfnt(
+  tables: SfntTables,
+  { glyphIds, placeholderIds = [], cmap, ligatures = [] }: SfntSubsetOptions
+): SfntSubset {
+  if (tables.has("CFF ") || tables.has("CFF2")) {
+    throw new Error("CFF-based fonts are not supported for subsetting");
+  }
+  const numGlyphs = tables.get("maxp")!.readUInt16BE(4);
+  const readGlyph = createGlyphReader(tables, numGlyphs);
+
+  // 그려지는 글리프가 참조하는 글리프(복합 글리프 구성 요소, COLR 레이어)도 포함
+  const rendered = new Set<number>([0]);
+  const pending = [...glyphIds, ...getColorLayerGlyphs(tables, glyphIds)];
+  while (pending.length > 0) {
+    const gid = pending.pop()!;
+    if (gid >= numGlyphs || rendered.has(gid)) {
+      continue;
+    }
+    rendered.add(gid);
+    if (readGlyph) {
+      const glyph = readGlyph(gid);
+      getComponentPositions(glyph).forEach((position) =>
+        pending.push(glyph.readUInt16BE(position))
+      );
+    }
+  }
+  const keep = Array.from(
+    new Set([
+      0,
+      ...glyphIds.filter((gid) => rendered.has(gid)),
+      ...Array.from(rendered),
+      ...placeholderIds.filter((gid) => gid < numGlyphs),
+    ])
+  );
+  const glyphMap = new Map(keep.map((gid, index) => [gid, index]));
+  const output: SfntTables = new Map();
+
+  // glyf/loca: 자리만 차지하는 글리프는 빈 데이터, 복합 글리프는 구성 요소 ID를 새 ID로 바꿈
+  if (readGlyph) {
+    const glyf = new TableWriter();
+    const loca = new TableWriter();
+    for (const gid of keep) {
+      loca.uint32(glyf.offset);
+      if (!rendered.has(gid)) {
+        continue;
+      }
+      const glyph = Buffer.from(readGlyph(gid));
+      getComponentPositions(glyph).forEach((position) =>
+        glyph.writeUInt16BE(
+          glyphMap.get(glyph.readUInt16BE(position)) ?? 0,
+          position
+        )
+      );
+      glyf.bytes(glyph).align();
+    }
+    loca.uint32(glyf.offset);
+    output.set("glyf", glyf.toBuffer());
+    output.set("loca", loca.toBuffer());
+  }
+
+  // hmtx: 모든 글리프를 긴 형식(폭, 왼쪽 여백)으로 기록
+  const hmtx = tables.get("hmtx")!;
+  const numberOfHMetrics = tables.get("hhea")!.readUInt16BE(34);
+  const newHmtx = new TableWriter();
+  for (const gid of keep) {
+    const metric = Math.min(gid, numberOfHMetrics - 1);
+    newHmtx.uint16(hmtx.readUInt16BE(metric * 4));
+    newHmtx.uint16(
+      gid < numberOfHMetrics
+        ? hmtx.readUInt16BE(gid * 4 + 2)
+        : hmtx.readUInt16BE(numberOfHMetrics * 4 + (gid - numberOfHMetrics) * 2)
+    );
+  }
+  output.set("hmtx", newHmtx.toBuffer());
+
+  const hhea = Buffer.from(tables.get("hhea")!);
+  hhea.writeUInt16BE(keep.length, 34);
+  output.set("hhea", hhea);
+
+  const maxp = Buffer.from(tables.get("maxp")!);
+  maxp.writeUInt16BE(keep.length, 4);
+  output.set("maxp", maxp);
+
+  const head = Buffer.from(tables.get("head")!);
+  if (readGlyph) {
+    head.writeInt16BE(1, 50);
+  }
+  output.set("head", head);
+
+  // post: 글리프 이름 없는 버전 3
+  const post = Buffer.from(tables.get("post")!.subarray(0, 32));
+  post.writeUInt32BE(0x00030000, 0);
+  output.set("post", post);
+
+  const subsetCmap = new Map<number, number>();
+  cmap.forEach((gid, cp) => {
+    if (glyphMap.has(gid)) {
+      subsetCmap.set(cp, glyphMap.get(gid)!);
+    }
+  });
+  output.set("cmap", buildCmap(subsetCmap));
+
+  COPIED_TABLES.forEach((tag) => {
+    const table = tables.get(tag);
+    if (table) {
+      output.set(tag, table);
+    }
+  });
+
+  // 컬러 테이블 (CBDT/CBLC, COLR/CPAL, sbix, SVG)
+  subsetColorTables(tables, glyphMap, rendered).forEach((table, tag) =>
+    output.set(tag, table)
+  );
+
+  // 시퀀스를 하나의 글리프로 합치는 데 필요한 합자 룩업만 GSUB로 추가
+  const subsetLigatures = ligatures
+    .filter(
+      ({ components, glyph }) =>
+        glyphMap.has(glyph) && components.every((gid) => glyphMap.has(gid))
+    )
+    .map(({ components, glyph }) => ({
+      components: components.map((gid) => glyphMap.get(gid)!),
+      glyph: glyphMap.get(glyph)!,
+    }));
+  if (subsetLigatures.length > 0) {
+    output.set("GSUB", buildLigatureGsub(subsetLigatures));
+  }
+
+  return { data: writeSfnt(output), glyphMap };
+}
+
+// 셰이핑과 글리프 조회용 fontkit 폰트 열기
+// fontkit은 glyf/CFF 테이블이 없는 비트맵 전용 폰트(CBDT)에서 글리프 객체를 만들지 못하므로
+// 이런 폰트는 비트맵 테이블을 빼고 빈 윤곽선(glyf/loca)을 붙인 사본으로 연다
+export function createFontkitFont(font: Buffer): FontkitFont {
+  const tables = readSfntTables(font);
+  if (
+    tables.has("glyf") ||
+    tables.has("CFF ") ||
+    tables.has("CFF2") ||
+    !tables.has("maxp")
+  ) {
+    return fontkit.create(font);
+  }
+
+  const shapingTables: SfntTables = new Map(
+    Array.from(tables).filter(([tag]) => tag !== "CBDT" && tag !== "CBLC")
+  );
+  const numGlyphs = tables.get("maxp")!.readUInt16BE(4);
+  shapingTables.set("glyf", Buffer.alloc(0));
+  shapingTables.set("loca", Buffer.alloc((numGlyphs + 1) * 4));
+  const head = Buffer.from(tables.get("head")!);
+  head.writeInt16BE(1, 50);
+  shapingTables.set("head", head);
+  return fontkit.create(writeSfnt(shapingTables));
+}
@@ -0,0 +1,81 @@
+// 래스터 변환에서 SVG <image>에 넣을 이미지 형식
+// 클라이언트와 서버가 함께 사용하므로 인코더(sharp)에 의존하지 않는다
+export type RasterFormat = "png" | "webp" | "avif";
+
+export const DEFAULT_RASTER_FORMAT: RasterFormat = "png";
+
+// 형식별 MIME 타입, 기본 품질과 SVG 소비자 호환성 경고
+// quality가 없는 형식은 무손실이므로 품질 설정을 사용하지 않는다
+export const RASTER_FORMAT_INFO: Record<
+  RasterFormat,
+  {
+    label: string;
+    mimeType: string;
+    defaultQuality?: number;
+    warning?: string;
+  }
+> = {
+  png: {
+    label: "PNG",
+    mimeType: "image/png",
+  },
+  webp: {
+    label: "WebP",
+    mimeType: "image/webp",
+    defaultQuality: 80,
+    warning:
+      "WebP images inside SVG <image> elements are not shown by some SVG consumers, such as older design tools and SVG renderers that only decode PNG and JPEG.",
+  },
+  avif: {
+    label: "AVIF",
+    mimeType: "image/avif",
+    defaultQuality: 50,
+    warning:
+      "AVIF images inside SVG <image> elements are only shown by recent browsers; design tools (Figma, Illustrator, Inkscape) and server-side SVG renderers may show nothing.",
+  },
+};
+
+export const RASTER_FORMATS = Object.keys(RASTER_FORMAT_INFO) as RasterFormat[];
+
+export const isRasterFormat = (value: unknown): value is RasterFormat =>
+  typeof value === "string" && value in RASTER_FORMAT_INFO;
+
+// 품질 값 확인 (1~100 정수)
+export const isRasterQuality = (value: unknown): value is number =>
+  typeof value === "number" &&
+  Number.isInteger(value) &&
+  value >= 1 &&
+  value <= 100;
+
+// 래스터 이미지를 SVG에 넣는 구조
+export type RasterStructure = "image" | "pattern" | "symbol";
+
+export const DEFAULT_RASTER_STRUCTURE: RasterStructure = "image";
+
+export const RASTER_STRUCTURE_INFO: Record<
+  RasterStructure,
+  { label: string; description: string }
+> = {
+  image: {
+    label: "Image",
+    description:
+      "A single <image> sized exactly to the emoji box. Smallest output, supported everywhere.",
+  },
+  pattern: {
+    label: "Pattern",
+    description:
+      "A rectangle filled with a <pattern> that uses the image, like Figma's own export. Some renderers have poor pattern support.",
+  },
+  symbol: {
+    label: "Symbol",
+    description:
+      "The image wrapped in a <symbol> and placed with <use>, so it can be referenced again from the same document.",
+  },
+};
+
+export const RASTER_STRUCTURES = Object.keys(
+  RASTER_STRUCTURE_INFO
+) as RasterStructure[];
+
+export const isRasterStructure = (value: unknown): value is RasterStructure =>
+  typeof value === "string" && value in RASTER_STRUCTURE_INFO;
@@ -0,0 +1,50 @@
+// PNG 래스터 해상도 옵션
+// 클라이언트와 서버가 함께 사용하므로 파일 시스템이나 canvas에 의존하지 않는다
+//
+// 해상도 지정 방식
+//   숫자    래스터 높이 (픽셀)
+//   "2x"   최종 표시 크기의 배수 (srcset의 픽셀 밀도와 같은 의미)
+//   "auto" 최종 표시 크기에 고해상도 화면용 배수를 곱하고 캐시를 재사용하기 쉽도록 단위 크기로 올림
+export type PngDensity = "1x" | "2x" | "3x" | "4x";
+
+export type PngResolution = number | PngDensity | "auto";
+
+export const PNG_DENSITIES: PngDensity[] = ["1x", "2x", "3x", "4x"];
+
+// PNG 래스터 기본 높이 (픽셀)
+export const DEFAULT_PNG_RESOLUTION = 160;
+
+// auto 모드에서 표시 크기에 곱하는 배수와 올림 단위 (픽셀)
+const AUTO_DENSITY = 2;
+const AUTO_STEP = 16;
+
+// 요청 값 읽기 (숫자 문자열은 픽셀 크기로 처리, 올바르지 않으면 null)
+export const parsePngResolution = (value: unknown): PngResolution | null => {
+  if (value === "auto" || PNG_DENSITIES.includes(value as PngDensity)) {
+    return value as PngResolution;
+  }
+  const pixels =
+    typeof value === "number"
+      ? value
+      : typeof value === "string" && value.trim() !== ""
+        ? Number(value)
+        : NaN;
+  return Number.isFinite(pixels) && pixels > 0 ? pixels : null;
+};
+
+// 최종 표시 높이 (CSS 픽셀) 기준으로 래스터 높이 계산
+export const resolvePngResolution = (
+  resolution: PngResolution,
+  displayHeight: number
+): number => {
+  if (typeof resolution === "number") {
+    return Math.round(resolution);
+  }
+  if (resolution === "auto") {
+    return (
+      Math.ceil((displayHeight * AUTO_DENSITY) / AUTO_STEP) * AUTO_STEP ||
+      AUTO_STEP
+    );
+  }
+  return Math.max(1, Math.ceil(displayHeight * parseFloat(resolution)));
+};
@@ -0,0 +1,164 @@
+// OpenType(sfnt) 폰트 파일의 테이블 디렉토리를 읽고 쓰는 저수준 유틸리티
+
+// 태그 -> 테이블 데이터
+export type SfntTables = Map<string, Buffer>;
+
+// 빅엔디언 바이너리 작성 헬퍼 (필요할 때마다 버퍼를 늘림)
+export class TableWriter {
+  private buffer = Buffer.alloc(256);
+  private length = 0;
+
+  get offset() {
+    return this.length;
+  }
+
+  // 쓸 위치를 먼저 확보 (버퍼를 늘리면 this.buffer가 바뀌므로 쓰기 전에 호출해야 함)
+  private reserve(size: number) {
+    if (this.length + size > this.buffer.length) {
+      const next = Buffer.alloc(
+        Math.max(this.buffer.length * 2, this.length + size)
+      );
+      this.buffer.copy(next, 0, 0, this.length);
+      this.buffer = next;
+    }
+    const position = this.length;
+    this.length += size;
+    return position;
+  }
+
+  uint8(value: number) {
+    const position = this.reserve(1);
+    this.buffer.writeUInt8(value & 0xff, position);
+    return this;
+  }
+
+  uint16(value: number) {
+    const position = this.reserve(2);
+    this.buffer.writeUInt16BE(value & 0xffff, position);
+    return this;
+  }
+
+  uint32(value: number) {
+    const position = this.reserve(4);
+    this.buffer.writeUInt32BE(value >>> 0, position);
+    return this;
+  }
+
+  tag(value: string) {
+    const position = this.reserve(4);
+    this.buffer.write(value.padEnd(4, " "), position, "latin1");
+    return this;
+  }
+
+  bytes(data: Buffer) {
+    const position = this.reserve(data.length);
+    data.copy(this.buffer, position);
+    return this;
+  }
+
+  // 4바이트 경계로 맞춤
+  align() {
+    while (this.length % 4 !== 0) {
+      this.uint8(0);
+    }
+    return this;
+  }
+
+  // 나중에 채울 16비트 자리 (오프셋 등)
+  placeholder() {
+    const position = this.length;
+    this.uint16(0);
+    return position;
+  }
+
+  patch(position: number, value: number) {
+    this.buffer.writeUInt16BE(value & 0xffff, position);
+  }
+
+  patch32(position: number, value: number) {
+    this.buffer.writeUInt32BE(value >>> 0, position);
+  }
+
+  toBuffer() {
+    return Buffer.from(this.buffer.subarray(0, this.length));
+  }
+}
+
+// 폰트 파일을 테이블별로 나누기 (원본 버퍼를 복사하지 않고 참조)
+export const readSfntTables = (font: Buffer): SfntTables => {
+  const tables: SfntTables = new Map();
+  const numTables = font.readUInt16BE(4);
+  for (let i = 0; i < numTables; i++) {
+    const record = 12 + i * 16;
+    const tag = font.toString("latin1", record, record + 4);
+    const offset = font.readUInt32BE(record + 8);
+    const length = font.readUInt32BE(record + 12);
+    tables.set(tag, font.subarray(offset, offset + length));
+  }
+  return tables;
+};
+
+const align4 = (length: number) => (length + 3) & ~3;
+
+// 4바이트 단위 체크섬
+const calcChecksum = (data: Buffer): number => {
+  const padded = Buffer.alloc(align4(data.length));
+  data.copy(padded);
+  let sum = 0;
+  for (let i = 0; i < padded.length; i += 4) {
+    sum = (sum + padded.readUInt32BE(i)) >>> 0;
+  }
+  return sum;
+};
+
+// 테이블들로 TrueType 폰트 파일 만들기
+// 테이블 디렉토리와 체크섬, head.checkSumAdjustment를 계산한다
+export function writeSfnt(tables: SfntTables): Buffer {
+  // head.checkSumAdjustment는 전체 체크섬 계산 전에 0으로 둠
+  const head = tables.get("head");
+  if (head) {
+    const copy = Buffer.from(head);
+    copy.writeUInt32BE(0, 8);
+    tables.set("head", copy);
+  }
+
+  const tags = Array.from(tables.keys()).sort();
+  const entrySelector = Math.floor(Math.log2(tags.length));
+  const searchRange = 2 ** entrySelector * 16;
+  const headerLength = 12 + tags.length * 16;
+  const totalLength = tags.reduce(
+    (sum, tag) => sum + align4(tables.get(tag)!.length),
+    headerLength
+  );
+
+  const output = Buffer.alloc(totalLength);
+  output.writeUInt32BE(0x00010000, 0);
+  output.writeUInt16BE(tags.length, 4);
+  output.writeUInt16BE(searchRange, 6);
+  output.writeUInt16BE(entrySelector, 8);
+  output.writeUInt16BE(tags.length * 16 - searchRange, 10);
+
+  let offset = headerLength;
+  let headOffset = -1;
+  tags.forEach((tag, index) => {
+    const data = tables.get(tag)!;
+    const record = 12 + index * 16;
+    output.write(tag, record, "latin1");
+    output.writeUInt32BE(calcChecksum(data), record + 4);
+    output.writeUInt32BE(offset, record + 8);
+    output.writeUInt32BE(data.length, record + 12);
+    data.copy(output, offset);
+    if (tag === "head") {
+      headOffset = offset;
+    }
+    offset += align4(data.length);
+  });
+
+  if (headOffset >= 0) {
+    output.writeUInt32BE(
+      (0xb1b0afba - calcChecksum(output)) >>> 0,
+      headOffset + 8
+    );
+  }
+  return output;
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import { parseSvg, readFixture, readSample } from "@/test/helpers";
+import { createSimpleSvg } from "./emoji-output";
+import {
+  collectEmoji,
+  convertEmojiRuns,
+  estimateTextWidth,
+  findEmojiRuns,
+  layoutEmojiRun,
+} from "./svg-emoji";
+
+describe("findEmojiRuns", () => {
+  it("finds the emoji run in the Figma samples", () => {
+    const [home] = findEmojiRuns(parseSvg(readSample("home.svg")));
+    expect(home.text).toBe("📆");
+    expect(home.element.localName).toBe("tspan");
+    expect(home.textElement.localName).toBe("text");
+
+    const [staff] = findEmojiRuns(parseSvg(readSample("staff.svg")));
+    expect(staff.text).toBe("👩🏻‍💻");
+  });
+
+  it("skips text runs without emoji", () => {
+    const runs = findEmojiRuns(parseSvg(readFixture("mixed.svg")));
+    expect(runs.map((run) => run.text)).toEqual([
+      "회의 📆 D-1",
+      "🇰🇷1️⃣👍🏽",
+      "👨‍👩‍👧‍👦 team",
+    ]);
+  });
+});
+
+describe("collectEmoji", () => {
+  it("collects each emoji once in document order", () => {
+    expect(collectEmoji(parseSvg(readSample("home.svg")))).toEqual(["📆"]);
+    expect(collectEmoji(parseSvg(readSample("staff.svg")))).toEqual(["👩🏻‍💻"]);
+    expect(collectEmoji(parseSvg(readFixture("mixed.svg")))).toEqual([
+      "📆",
+      "🇰🇷",
+      "1️⃣",
+      "👍🏽",
+      "👨‍👩‍👧‍👦",
+    ]);
+  });
+});
+
+describe("layoutEmojiRun", () => {
+  it("places the sample emoji on the text baseline", () => {
+    const [run] = findEmojiRuns(parseSvg(readSample("home.svg")));
+    const { segments, baselineY } = layoutEmojiRun(run, estimateTextWidth);
+    expect(baselineY).toBe(15.976);
+    expect(segments).toHaveLength(1);
+    expect(segments[0]).toMatchObject({
+      text: "📆",
+      isEmoji: true,
+      box: { x: 1, width: 16, height: 16 },
+    });
+    expect(segments[0].box.y).toBeCloseTo(15.976 - 0.9 * 16);
+  });
+
+  it("centers text-anchor middle runs and keeps the text transform", () => {
+    const runs = findEmojiRuns(parseSvg(readFixture("mixed.svg")));
+    const centered = layoutEmojiRun(runs[1], estimateTextWidth);
+    const emojiWidth = 14 + 0.02 * 14;
+    expect(centered.segments.map((segment) => segment.text)).toEqual([
+      "🇰🇷",
+      "1️⃣",
+      "👍🏽",
+    ]);
+    expect(centered.segments[0].box.x).toBeCloseTo(120 - (emojiWidth * 3) / 2);
+
+    const rotated = layoutEmojiRun(runs[2], estimateTextWidth);
+    expect(
+      rotated.segments.map(({ text, isEmoji }) => [text, isEmoji])
+    ).toEqual([
+      ["👨‍👩‍👧‍👦", true],
+      ["team", false],
+    ]);
+    expect(rotated.segments[0].box.transform).toBe("rotate(-5 40 80)");
+  });
+
+  it("continues a tspan without x after the text before it", () => {
+    const [continued, centered] = findEmojiRuns(
+      parseSvg(readFixture("tspans.svg"))
+    );
+    // "Hi " 폭은 8 + 8 + 4
+    const { segments, baselineY, pinnedText } = layoutEmojiRun(
+      continued,
+      estimateTextWidth
+    );
+    expect(baselineY).toBe(24);
+    expect(segments.map(({ text, box }) => [text, box.x])).toEqual([
+      ["👋", 28],
+      ["there", 48],
+    ]);
+    expect(pinnedText).toEqual([]);
+
+    // 가운데 정렬은 두 tspan을 합친 폭 (36 + 44)을 기준으로 한다
+    const layout = layoutEmojiRun(centered, estimateTextWidth);
+    expect(layout.segments.map(({ text, box }) => [text, box.x])).toEqual([
+      ["Hi", 80],
+      ["👋", 100],
+    ]);
+    expect(layout.pinnedText).toMatchObject([{ x: 116, y: 52 }]);
+    expect(layout.pinnedText[0].textNode.nodeValue).toBe(" there");
+  });
+});
+
+describe("convertEmojiRuns", () => {
+  it("pins the text that followed a replaced run", async () => {
+    const doc = parseSvg(readFixture("tspans.svg"));
+    await convertEmojiRuns(
+      doc,
+      async (emoji, { width, height }) => ({
+        svgContent: createSimpleSvg(emoji, width, height),
+      }),
+      { parseSvg }
+    );
+    // 위치를 고정한 tspan만 x를 가지며 모두 시작 정렬이다
+    const pinned = Array.from(doc.documentElement.getElementsByTagName("tspan"))
+      .filter((tspan) => tspan.hasAttribute("x"))
+      .map((tspan) => [
+        tspan.textContent,
+        tspan.getAttribute("x"),
+        tspan.getAttribute("text-anchor"),
+      ]);
+    expect(pinned).toEqual([
+      ["there", "48", "start"],
+      ["Hi", "80", "start"],
+      [" there", "116", "start"],
+    ]);
+  });
+});
@@ -0,0 +1,726 @@
+// SVG 문서에서 이모지 텍스트 런을 찾아 변환 결과로 교체하는 유틸리티
+// 브라우저의 DOMParser와 서버 측 XML 파서 모두에서 동작하도록 표준 DOM 인터페이스만 사용한다
+
+import { containsEmoji, segmentEmojiText, splitGraphemes } from "./emoji-text";
+import {
+  assignContentIds,
+  collectIds,
+  DEFAULT_ID_PREFIX,
+  makeIdsUnique,
+} from "./svg-ids";
+
+export const SVG_NS = "http://www.w3.org/2000/svg";
+
+// DOM 노드 타입 상수 (서버 환경에는 전역 Node 객체가 없을 수 있음)
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+// 이모지를 포함한 텍스트 런 정보
+export interface EmojiRun {
+  textElement: Element; // 최상위 <text> 요소
+  element: Element; // 텍스트 노드를 직접 포함하는 <text> 또는 <tspan> 요소
+  textNode: Node; // 이모지가 들어있는 텍스트 노드
+  text: string; // 앞뒤 공백을 제거한 런의 텍스트
+}
+
+// 런 안의 조각별 배치 결과
+export interface EmojiSegmentLayout {
+  text: string;
+  isEmoji: boolean;
+  box: EmojiBox;
+}
+
+// 런을 교체한 뒤 위치를 고정해야 하는 같은 텍스트 덩어리의 텍스트 노드
+export interface PinnedText {
+  textNode: Node;
+  x: number;
+  y: number;
+}
+
+// 런의 배치 결과 (baselineY는 원본 기준선 위치)
+export interface EmojiRunLayout {
+  segments: EmojiSegmentLayout[];
+  baselineY: number;
+  pinnedText: PinnedText[];
+}
+
+// 변환된 결과로 교체할 런과 이모지 조각별 대체 요소
+export interface EmojiRunReplacement {
+  run: EmojiRun;
+  layout: EmojiRunLayout;
+  replacements: Element[]; // layout의 이모지 조각 순서와 같음
+}
+
+// 일반 텍스트 폭 측정 함수 (font는 CSS font 단축 속성 값)
+export type TextMeasurer = (text: string, font: string) => number;
+
+// 변환 결과와 함께 내려받아야 하는 폰트 파일
+export interface EmojiFontFile {
+  fileName: string;
+  data: string; // Base64
+}
+
+// 이모지 하나의 변환 결과
+export interface ConvertedEmoji {
+  svgContent: string;
+  fontData?: string | null;
+  fontFileName?: string | null;
+  fontBytes?: number; // SVG에 넣거나 참조하는 폰트 서브셋 크기 (바이트)
+  rasterHeight?: number; // PNG 변환에서 렌더링한 래스터 높이 (픽셀)
+  source?: string; // 이모지를 그린 스타일 (대체 소스를 사용했으면 그 스타일)
+}
+
+// 이모지 하나를 배치 영역 크기의 SVG로 변환하는 함수 (API 호출 또는 서버 직접 변환)
+export type EmojiConverter = (
+  emoji: string,
+  box: EmojiBox
+) => Promise<ConvertedEmoji>;
+
+// SVG 문자열을 문서로 파싱하는 함수 (파싱에 실패하면 에러를 던져야 함)
+export type SvgParser = (content: string) => Document;
+
+// 문서를 SVG 문자열로 직렬화하는 함수
+export type SvgSerializer = (doc: Document) => string;
+
+export interface ConvertEmojiRunsOptions {
+  parseSvg: SvgParser;
+  measureText?: TextMeasurer;
+  // 교체가 끝난 문서의 모든 id를 (idPrefix + 문서 내용 해시 + 순번)으로 다시 만들기
+  // 여러 변환 결과를 한 문서로 합칠 때 다른 문서의 id와도 겹치지 않게 한다 (serializeSvg 필요)
+  rewriteIds?: boolean;
+  idPrefix?: string;
+  serializeSvg?: SvgSerializer;
+}
+
+// 이모지 배치 영역 (transform은 원본 <text> 요소의 좌표계 변환)
+export interface EmojiBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  transform?: string | null;
+  displayScale?: number; // 사용자 단위 1이 최종 화면에서 차지하는 CSS 픽셀 수 (transform과 루트 viewBox 반영)
+}
+
+// 이모지 글리프 메트릭 (em 단위)
+// Figma는 이모지를 1em 정사각형으로 그리며, 기준선 아래로 0.1em 내려온다
+export const EMOJI_METRICS = {
+  advance: 1,
+  ascent: 0.9,
+  descent: 0.1,
+};
+
+// 좌표 값을 소수점 셋째 자리까지 문자열로 변환
+export const formatNumber = (value: number): string =>
+  String(Math.round(value * 1000) / 1000);
+
+const isElement = (node: Node): node is Element =>
+  node.nodeType === ELEMENT_NODE;
+
+const isTextContainer = (element: Element): boolean =>
+  element.localName === "text" || element.localName === "tspan";
+
+// 요소에서 가장 가까운 <text> 조상(자기 자신 포함) 찾기
+const findTextElement = (element: Element): Element | null => {
+  let current: Node | null = element;
+  while (current && isElement(current)) {
+    if (current.localName === "text") {
+      return current;
+    }
+    current = current.parentNode;
+  }
+  return null;
+};
+
+// 문서 전체를 순회하며 이모지를 포함한 모든 텍스트 런 찾기
+export function findEmojiRuns(doc: Document): EmojiRun[] {
+  const runs: EmojiRun[] = [];
+
+  const visit = (element: Element) => {
+    for (const child of Array.from(element.childNodes)) {
+      if (isElement(child)) {
+        visit(child);
+        continue;
+      }
+
+      if (child.nodeType !== TEXT_NODE || !isTextContainer(element)) {
+        continue;
+      }
+
+      const text = child.nodeValue || "";
+      if (!containsEmoji(text)) {
+        continue;
+      }
+
+      const textElement = findTextElement(element);
+      if (!textElement) {
+        continue;
+      }
+
+      runs.push({
+        textElement,
+        element,
+        textNode: child,
+        text: text.trim(),
+      });
+    }
+  };
+
+  visit(doc.documentElement);
+  return runs;
+}
+
+// 문서에 들어있는 이모지를 중복 없이 등장 순서대로 모으기
+export const collectEmoji = (doc: Document): string[] => {
+  const emojis = new Set<string>();
+  for (const run of findEmojiRuns(doc)) {
+    for (const segment of segmentEmojiText(run.textNode.nodeValue || "")) {
+      if (segment.isEmoji) {
+        emojis.add(segment.text);
+      }
+    }
+  }
+  return Array.from(emojis);
+};
+
+// 요소 또는 조상 요소에서 속성 값 찾기 (style 속성 포함)
+export const getInheritedAttribute = (
+  element: Element,
+  name: string
+): string | null => {
+  let current: Node | null = element;
+  while (current && isElement(current)) {
+    const style = current.getAttribute("style") || "";
+    const styleMatch = style.match(
+      new RegExp(`(?:^|;)\\s*${name}\\s*:\\s*([^;]+)`)
+    );
+    if (styleMatch) {
+      return styleMatch[1].trim();
+    }
+
+    const value = current.getAttribute(name);
+    if (value !== null && value !== "") {
+      return value;
+    }
+    current = current.parentNode;
+  }
+  return null;
+};
+
+// 요소 자신의 좌표 속성 첫 번째 값 읽기 (x="1 10 20" 처럼 목록일 수 있음, 없으면 null)
+const getOwnCoordinate = (element: Element, name: string): number | null => {
+  if (!isTextContainer(element)) {
+    return null;
+  }
+  const value = element.getAttribute(name);
+  const parsed = value ? parseFloat(value.trim().split(/[\s,]+/)[0]) : NaN;
+  return isNaN(parsed) ? null : parsed;
+};
+
+// 런의 글꼴 크기 계산 (기본값 16px)
+export const getFontSize = (element: Element): number => {
+  const value = getInheritedAttribute(element, "font-size");
+  const parsed = value ? parseFloat(value) : NaN;
+  return isNaN(parsed) ? 16 : parsed;
+};
+
+// letter-spacing 값을 사용자 단위로 변환 (em, %, px 지원)
+export const parseLetterSpacing = (
+  value: string | null,
+  fontSize: number
+): number => {
+  if (!value || value === "normal") {
+    return 0;
+  }
+
+  const parsed = parseFloat(value);
+  if (isNaN(parsed)) {
+    return 0;
+  }
+  if (value.trim().endsWith("em")) {
+    return parsed * fontSize;
+  }
+  if (value.trim().endsWith("%")) {
+    return (parsed / 100) * fontSize;
+  }
+  return parsed;
+};
+
+// 글꼴 정보 없이 문자 폭을 추정하는 기본 측정 함수
+const WIDE_CHARACTER = new RegExp(
+  "\\p{Script=Hangul}|\\p{Script=Han}|\\p{Script=Hiragana}|\\p{Script=Katakana}",
+  "u"
+);
+
+export const estimateTextWidth: TextMeasurer = (text, font) => {
+  const fontSize = parseFloat(font.match(/([\d.]+)px/)?.[1] || "16");
+  return splitGraphemes(text).reduce((width, cluster) => {
+    if (/^\s+$/.test(cluster)) {
+      return width + 0.25 * fontSize;
+    }
+    return width + (WIDE_CHARACTER.test(cluster) ? 1 : 0.5) * fontSize;
+  }, 0);
+};
+
+// 브라우저 캔버스로 실제 글꼴 폭을 측정하는 함수 만들기 (캔버스가 없으면 null)
+export const createCanvasTextMeasurer = (): TextMeasurer | null => {
+  if (typeof document === "undefined") {
+    return null;
+  }
+  const context = document.createElement("canvas").getContext("2d");
+  if (!context) {
+    return null;
+  }
+  return (text, font) => {
+    context.font = font;
+    return context.measureText(text).width;
+  };
+};
+
+// 런에 적용되는 CSS font 단축 속성 값 만들기
+const getFontShorthand = (element: Element, fontSize: number): string => {
+  const fontStyle = getInheritedAttribute(element, "font-style") || "normal";
+  const fontWeight = getInheritedAttribute(element, "font-weight") || "normal";
+  const fontFamily =
+    getInheritedAttribute(element, "font-family") || "sans-serif";
+  return `${fontStyle} ${fontWeight} ${fontSize}px ${fontFamily}`;
+};
+
+// 런의 글꼴 크기, CSS font 값, 자간 (사용자 단위)
+interface TextStyle {
+  fontSize: number;
+  font: string;
+  letterSpacing: number;
+}
+
+const getTextStyle = (element: Element): TextStyle => {
+  const fontSize = getFontSize(element);
+  return {
+    fontSize,
+    font: getFontShorthand(element, fontSize),
+    letterSpacing: parseLetterSpacing(
+      getInheritedAttribute(element, "letter-spacing"),
+      fontSize
+    ),
+  };
+};
+
+// 텍스트를 일반 텍스트와 이모지 조각으로 나누고 조각별 전진 폭 계산 (자간은 클러스터마다 더해짐)
+const measureSegments = (
+  text: string,
+  { fontSize, font, letterSpacing }: TextStyle,
+  measureText: TextMeasurer
+) => {
+  const segments = segmentEmojiText(text);
+  const advances = segments.map(
+    (segment) =>
+      (segment.isEmoji
+        ? EMOJI_METRICS.advance * fontSize
+        : measureText(segment.text, font)) +
+      letterSpacing * segment.clusters.length
+  );
+  return { segments, advances };
+};
+
+// 절대 위치(x 또는 y)가 지정된 곳부터 다음 지정 전까지 이어지는 텍스트 덩어리
+// text-anchor는 덩어리 전체 폭을 기준으로 적용된다
+interface TextChunk {
+  x: number;
+  anchor: string | null;
+  width: number;
+  pieces: { textNode: Node; y: number; offset: number }[];
+}
+
+// 덩어리의 text-anchor를 반영한 실제 시작 위치
+const getChunkStart = ({ x, anchor, width }: TextChunk): number => {
+  if (anchor === "middle") {
+    return x - width / 2;
+  }
+  if (anchor === "end") {
+    return x - width;
+  }
+  return x;
+};
+
+// <text> 안의 텍스트 노드를 문서 순서대로 텍스트 덩어리로 묶기
+// x/y가 없는 <tspan>은 앞선 텍스트가 끝난 위치에서 이어지므로 앞선 텍스트의 폭만큼 밀려난다
+const collectTextChunks = (
+  textElement: Element,
+  measureText: TextMeasurer
+): TextChunk[] => {
+  const chunks: TextChunk[] = [];
+  let y = 0;
+
+  const visit = (element: Element) => {
+    const ownX = getOwnCoordinate(element, "x");
+    const ownY = getOwnCoordinate(element, "y");
+    if (ownY !== null) {
+      y = ownY;
+    }
+    if (chunks.length === 0 || ownX !== null || ownY !== null) {
+      const previous = chunks[chunks.length - 1];
+      chunks.push({
+        x: ownX ?? (previous ? getChunkStart(previous) + previous.width : 0),
+        anchor: getInheritedAttribute(element, "text-anchor"),
+        width: 0,
+        pieces: [],
+      });
+    }
+
+    for (const child of Array.from(element.childNodes)) {
+      if (isElement(child)) {
+        visit(child);
+        continue;
+      }
+      // 태그 사이의 줄바꿈과 들여쓰기는 폭을 차지하지 않는 것으로 본다
+      const text = child.nodeValue || "";
+      if (child.nodeType !== TEXT_NODE || text.trim() === "") {
+        continue;
+      }
+      const chunk = chunks[chunks.length - 1];
+      const { advances } = measureSegments(
+        text,
+        getTextStyle(element),
+        measureText
+      );
+      chunk.pieces.push({ textNode: child, y, offset: chunk.width });
+      chunk.width += advances.reduce((sum, advance) => sum + advance, 0);
+    }
+  };
+
+  visit(textElement);
+  return chunks;
+};
+
+// transform 속성이 면적을 늘리는 비율의 제곱근 (회전과 이동은 1, 기울이기는 면적을 바꾸지 않음)
+const getTransformScale = (transform: string | null): number => {
+  let determinant = 1;
+  for (const [, name, args] of Array.from(
+    (transform || "").matchAll(/(matrix|scale)\s*\(([^)]*)\)/g)
+  )) {
+    const values = args
+      .trim()
+      .split(/[\s,]+/)
+      .map(parseFloat);
+    if (name === "matrix" && values.length === 6) {
+      determinant *= values[0] * values[3] - values[1] * values[2];
+    } else if (name === "scale" && !isNaN(values[0])) {
+      determinant *= values[0] * (isNaN(values[1]) ? values[0] : values[1]);
+    }
+  }
+  return Math.sqrt(Math.abs(determinant)) || 1;
+};
+
+// 루트 <svg>의 width/height와 viewBox로 정해지는 배율 (크기가 없으면 1)
+const getViewBoxScale = (svg: Element): number => {
+  const viewBox = (svg.getAttribute("viewBox") || "")
+    .trim()
+    .split(/[\s,]+/)
+    .map(parseFloat);
+  const width = parseFloat(svg.getAttribute("width") || "");
+  const height = parseFloat(svg.getAttribute("height") || "");
+  if (viewBox.length !== 4 || !(viewBox[2] > 0) || !(viewBox[3] > 0)) {
+    return 1;
+  }
+  const scales = [width / viewBox[2], height / viewBox[3]].filter(
+    (scale) => scale > 0
+  );
+  return scales.length > 0 ? Math.min(...scales) : 1;
+};
+
+// 요소의 사용자 단위 1이 루트 SVG를 원래 크기로 표시했을 때 차지하는 픽셀 수
+// 요소 자신과 조상 요소의 transform, 루트 viewBox 배율을 곱한다
+export const getDisplayScale = (element: Element): number => {
+  let scale = 1;
+  let current: Node | null = element;
+  while (current && isElement(current)) {
+    scale *= getTransformScale(current.getAttribute("transform"));
+    if (current.parentNode?.nodeType !== ELEMENT_NODE) {
+      scale *= getViewBoxScale(current);
+    }
+    current = current.parentNode;
+  }
+  return scale;
+};
+
+// 런을 일반 텍스트와 이모지 조각으로 나누고 각 조각의 영역 계산
+// 기준선 위치, 글꼴 크기, 자간, text-anchor를 반영하고 <text>의 transform을 함께 전달한다
+// 조상 요소의 transform은 대체 요소가 같은 부모 아래에 삽입되므로 그대로 상속된다
+export function layoutEmojiRun(
+  run: EmojiRun,
+  measureText: TextMeasurer = estimateTextWidth
+): EmojiRunLayout {
+  const style = getTextStyle(run.element);
+  const { fontSize, font, letterSpacing } = style;
+  const transform = run.textElement.getAttribute("transform");
+  const displayScale = getDisplayScale(run.element);
+
+  // 런이 속한 텍스트 덩어리에서 앞선 텍스트가 끝나는 위치부터 시작
+  const chunk = collectTextChunks(run.textElement, measureText).find((item) =>
+    item.pieces.some((piece) => piece.textNode === run.textNode)
+  );
+  const pieces = chunk?.pieces || [];
+  const position = pieces.findIndex((piece) => piece.textNode === run.textNode);
+  const chunkStart = chunk ? getChunkStart(chunk) : 0;
+  let penX = chunkStart + (pieces[position]?.offset || 0);
+  const y = pieces[position]?.y || 0;
+
+  // 런을 교체하면 덩어리가 나뉘므로 다음 텍스트와 (가운데·끝 정렬이면) 덩어리 첫 텍스트의 위치를 고정
+  const pinnedText: PinnedText[] = [];
+  if (position > 0 && chunk && chunkStart !== chunk.x) {
+    pinnedText.push({
+      textNode: pieces[0].textNode,
+      x: chunkStart,
+      y: pieces[0].y,
+    });
+  }
+  if (position >= 0 && position < pieces.length - 1) {
+    const next = pieces[position + 1];
+    pinnedText.push({
+      textNode: next.textNode,
+      x: chunkStart + next.offset,
+      y: next.y,
+    });
+  }
+
+  const { segments, advances } = measureSegments(
+    run.textNode.nodeValue || "",
+    style,
+    measureText
+  );
+
+  const layouts: EmojiSegmentLayout[] = [];
+  segments.forEach((segment, index) => {
+    if (segment.isEmoji) {
+      layouts.push({
+        text: segment.text,
+        isEmoji: true,
+        box: {
+          x: penX,
+          y: y - EMOJI_METRICS.ascent * fontSize,
+          width: EMOJI_METRICS.advance * fontSize,
+          height: (EMOJI_METRICS.ascent + EMOJI_METRICS.descent) * fontSize,
+          transform,
+          displayScale,
+        },
+      });
+    } else if (segment.text.trim() !== "") {
+      // 공백 처리 방식과 무관하도록 앞쪽 공백을 건너뛴 위치에서 시작
+      const leading = segment.text.match(/^\s*/)?.[0] || "";
+      const offset = leading
+        ? measureText(leading, font) + letterSpacing * leading.length
+        : 0;
+      layouts.push({
+        text: segment.text.trim(),
+        isEmoji: false,
+        box: {
+          x: penX + offset,
+          y: y - fontSize,
+          width: advances[index] - offset,
+          height: fontSize,
+          transform,
+          displayScale,
+        },
+      });
+    }
+    penX += advances[index];
+  });
+
+  return { segments: layouts, baselineY: y, pinnedText };
+}
+
+// 변환된 SVG 문서를 원본 문서에 중첩할 수 있는 <svg> 요소로 만들기
+export function createEmbeddedSvg(
+  doc: Document,
+  convertedSvg: Element,
+  box: EmojiBox
+): Element {
+  const embedded = doc.importNode(convertedSvg, true) as Element;
+  const width = convertedSvg.getAttribute("width");
+  const height = convertedSvg.getAttribute("height");
+
+  // 원본 크기를 viewBox로 보존하여 배치 영역에 맞게 스케일링
+  if (!embedded.getAttribute("viewBox") && width && height) {
+    embedded.setAttribute(
+      "viewBox",
+      `0 0 ${parseFloat(width)} ${parseFloat(height)}`
+    );
+  }
+
+  embedded.setAttribute("x", formatNumber(box.x));
+  embedded.setAttribute("y", formatNumber(box.y));
+  embedded.setAttribute("width", formatNumber(box.width));
+  embedded.setAttribute("height", formatNumber(box.height));
+
+  // 원본 <text>에 transform이 있으면 같은 변환을 적용하는 그룹으로 감싸기
+  if (box.transform) {
+    const group = doc.createElementNS(SVG_NS, "g");
+    group.setAttribute("transform", box.transform);
+    group.appendChild(embedded);
+    return group;
+  }
+  return embedded;
+}
+
+// 요소 안에 공백이 아닌 텍스트가 남아있는지 확인
+const hasVisibleText = (element: Element): boolean =>
+  (element.textContent || "").trim() !== "";
+
+// 이모지 런들을 대체 요소로 교체하고 나머지 문서는 그대로 유지
+// 런 안의 일반 텍스트는 계산된 위치의 <tspan>으로 남기고 이모지 조각만 대체 요소로 바꾼다
+export function replaceEmojiRuns(
+  doc: Document,
+  replacements: EmojiRunReplacement[]
+): void {
+  // 대체 요소는 <text> 요소 바로 뒤에 원래 순서대로 삽입
+  const insertionPoints = new Map<Element, Node | null>();
+  const runTextNodes = new Set(replacements.map(({ run }) => run.textNode));
+  const pinnedTextNodes = new Set<Node>();
+
+  for (const { run, layout, replacements: elements } of replacements) {
+    const parent = run.textElement.parentNode;
+    if (!parent) {
+      continue;
+    }
+
+    // 일반 텍스트 조각을 원래 텍스트 노드 자리에 위치를 고정한 tspan으로 삽입
+    for (const segment of layout.segments) {
+      if (segment.isEmoji) {
+        continue;
+      }
+      const tspan = doc.createElementNS(SVG_NS, "tspan");
+      tspan.setAttribute("x", formatNumber(segment.box.x));
+      tspan.setAttribute("y", formatNumber(layout.baselineY));
+      tspan.setAttribute("text-anchor", "start");
+      tspan.appendChild(doc.createTextNode(segment.text));
+      run.element.insertBefore(tspan, run.textNode);
+    }
+
+    // 같은 덩어리의 다른 텍스트는 이어지던 위치를 잃으므로 계산된 위치의 tspan으로 감싸기
+    // 다른 런의 텍스트 노드는 그 런을 교체할 때 위치가 고정된다
+    for (const { textNode, x, y } of layout.pinnedText) {
+      if (
+        runTextNodes.has(textNode) ||
+        pinnedTextNodes.has(textNode) ||
+        !textNode.parentNode
+      ) {
+        continue;
+      }
+      const tspan = doc.createElementNS(SVG_NS, "tspan");
+      tspan.setAttribute("x", formatNumber(x));
+      tspan.setAttribute("y", formatNumber(y));
+      tspan.setAttribute("text-anchor", "start");
+      textNode.parentNode.insertBefore(tspan, textNode);
+      tspan.appendChild(textNode);
+      pinnedTextNodes.add(textNode);
+    }
+
+    for (const replacement of elements) {
+      const nextSibling = insertionPoints.has(run.textElement)
+        ? insertionPoints.get(run.textElement)!
+        : run.textElement.nextSibling;
+      const node =
+        replacement.ownerDocument === doc
+          ? replacement
+          : doc.importNode(replacement, true);
+      parent.insertBefore(node, nextSibling);
+      insertionPoints.set(run.textElement, node.nextSibling);
+    }
+
+    run.textNode.parentNode?.removeChild(run.textNode);
+  }
+
+  // 텍스트가 모두 사라진 tspan과 text 요소 정리
+  for (const { run } of replacements) {
+    if (
+      run.element !== run.textElement &&
+      run.element.parentNode &&
+      !hasVisibleText(run.element)
+    ) {
+      run.element.parentNode.removeChild(run.element);
+    }
+    if (run.textElement.parentNode && !hasVisibleText(run.textElement)) {
+      run.textElement.parentNode.removeChild(run.textElement);
+    }
+  }
+}
+
+// 문서의 모든 이모지 런을 변환 결과로 교체하고 함께 필요한 폰트 파일 목록 반환
+// 브라우저 페이지와 CLI가 같은 흐름을 사용하도록 파서와 변환 함수를 주입받는다
+export async function convertEmojiRuns(
+  doc: Document,
+  convertEmoji: EmojiConverter,
+  {
+    parseSvg,
+    measureText = estimateTextWidth,
+    rewriteIds = false,
+    idPrefix = DEFAULT_ID_PREFIX,
+    serializeSvg,
+  }: ConvertEmojiRunsOptions
+): Promise<EmojiFontFile[]> {
+  if (rewriteIds && !serializeSvg) {
+    throw new Error("serializeSvg is required to rewrite IDs");
+  }
+
+  // 문서 전체에서 이모지를 포함한 텍스트 런 찾기
+  const emojiRuns = findEmojiRuns(doc);
+  if (emojiRuns.length === 0) {
+    throw new Error(
+      "No emoji text found in SVG. This SVG might not contain an emoji."
+    );
+  }
+
+  // 각 이모지 런을 텍스트와 이모지 조각으로 나누고
+  // 이모지 조각만 변환하여 원래 위치에 배치할 요소 생성
+  const fontFiles: EmojiFontFile[] = [];
+  const replacements = await Promise.all(
+    emojiRuns.map(async (run) => {
+      const layout = layoutEmojiRun(run, measureText);
+      const emojiSegments = layout.segments.filter(
+        (segment) => segment.isEmoji
+      );
+
+      const elements = await Promise.all(
+        emojiSegments.map(async (segment) => {
+          const result = await convertEmoji(segment.text, segment.box);
+          let convertedDoc: Document;
+          try {
+            convertedDoc = parseSvg(result.svgContent);
+          } catch (_parseError) {
+            throw new Error("Invalid SVG data returned for emoji");
+          }
+
+          if (result.fontData && result.fontFileName) {
+            fontFiles.push({
+              fileName: result.fontFileName,
+              data: result.fontData,
+            });
+          }
+
+          return createEmbeddedSvg(
+            doc,
+            convertedDoc.documentElement,
+            segment.box
+          );
+        })
+      );
+
+      return { run, layout, replacements: elements };
+    })
+  );
+
+  // 같은 이모지를 여러 번 넣으면 변환 결과의 id가 같으므로
+  // 원본 문서와 앞서 넣은 요소의 id와 겹치는 id에 번호를 붙인다 (문서 순서대로)
+  const usedIds = collectIds(doc.documentElement);
+  for (const { replacements: elements } of replacements) {
+    elements.forEach((element) => makeIdsUnique(element, usedIds));
+  }
+
+  // 이모지 런만 교체하고 나머지 SVG는 그대로 유지
+  replaceEmojiRuns(doc, replacements);
+
+  if (rewriteIds) {
+    assignContentIds(doc.documentElement, serializeSvg!(doc), idPrefix);
+  }
+  return fontFiles;
+}
@@ -0,0 +1,122 @@
+// 변환 결과 SVG의 id를 내용 해시 기반으로 정하고 겹치지 않게 바꾸는 유틸리티
+// 같은 입력이면 항상 같은 id가 나오고, 여러 SVG를 한 문서에 넣어도 url(#id) 참조가 섞이지 않는다
+// 브라우저의 DOM과 서버 측 XML 파서 모두에서 동작하도록 표준 DOM 인터페이스만 사용한다
+
+// 기본 id 접두사
+export const DEFAULT_ID_PREFIX = "emoji-";
+
+const ELEMENT_NODE = 1;
+
+// XML 이름으로 쓸 수 있는 접두사인지 확인
+export const isIdPrefix = (value: unknown): value is string =>
+  typeof value === "string" && /^[A-Za-z_][\w.-]*$/.test(value);
+
+// 문자열 해시 (FNV-1a 32비트, 16진수 8자리)
+// 브라우저에서도 동기적으로 계산할 수 있도록 crypto를 사용하지 않는다
+export const hashContent = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+};
+
+// 요소와 하위 요소 목록 (문서 순서)
+const getElements = (root: Element): Element[] => [
+  root,
+  ...Array.from(root.getElementsByTagName("*")),
+];
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// 하위 트리의 id를 바꾸고 같은 트리 안의 참조(url(#id), href="#id", <style> 안의 url(#id))도 함께 수정
+// rename이 같은 값을 돌려준 id는 그대로 둔다
+export function renameIds(
+  root: Element,
+  rename: (id: string, index: number) => string
+): Map<string, string> {
+  const elements = getElements(root);
+  const renamed = new Map<string, string>();
+  elements
+    .filter((element) => element.getAttribute("id"))
+    .forEach((element, index) => {
+      const id = element.getAttribute("id")!;
+      const newId = rename(id, index);
+      if (newId !== id) {
+        renamed.set(id, newId);
+        element.setAttribute("id", newId);
+      }
+    });
+  if (renamed.size === 0) {
+    return renamed;
+  }
+
+  const urlPattern = new RegExp(
+    `url\\(\\s*(['"]?)#(${Array.from(renamed.keys())
+      .map(escapeRegExp)
+      .join("|")})\\1\\s*\\)`,
+    "g"
+  );
+  const replaceUrls = (value: string) =>
+    value.replace(
+      urlPattern,
+      (_match, quote: string, id: string) =>
+        `url(${quote}#${renamed.get(id)}${quote})`
+    );
+
+  for (const element of elements) {
+    for (const attr of Array.from(element.attributes)) {
+      const isHref = attr.localName === "href" && attr.value.startsWith("#");
+      const value = isHref
+        ? renamed.has(attr.value.slice(1))
+          ? `#${renamed.get(attr.value.slice(1))}`
+          : attr.value
+        : replaceUrls(attr.value);
+      if (value !== attr.value) {
+        element.setAttributeNS(attr.namespaceURI, attr.name, value);
+      }
+    }
+    if (element.localName === "style") {
+      for (const node of Array.from(element.childNodes)) {
+        if (node.nodeType !== ELEMENT_NODE && node.nodeValue) {
+          node.nodeValue = replaceUrls(node.nodeValue);
+        }
+      }
+    }
+  }
+  return renamed;
+}
+
+// 하위 트리의 모든 id를 (접두사 + 내용 해시 + 순번)으로 바꾸기
+// content는 해시할 내용 (보통 id를 바꾸기 전의 직렬화 결과)
+export const assignContentIds = (
+  root: Element,
+  content: string,
+  prefix: string = DEFAULT_ID_PREFIX
+): Map<string, string> => {
+  const hash = hashContent(content);
+  return renameIds(root, (_id, index) => `${prefix}${hash}-${index}`);
+};
+
+// 문서에 이미 있는 id와 겹치는 하위 트리의 id에 번호를 붙여 겹치지 않게 만들기
+// usedIds에는 바꾼 결과를 포함한 하위 트리의 id가 추가된다
+export const makeIdsUnique = (root: Element, usedIds: Set<string>): void => {
+  renameIds(root, (id) => {
+    let unique = id;
+    for (let count = 2; usedIds.has(unique); count++) {
+      unique = `${id}-${count}`;
+    }
+    usedIds.add(unique);
+    return unique;
+  });
+};
+
+// 문서 안의 모든 id
+export const collectIds = (root: Element): Set<string> =>
+  new Set(
+    getElements(root)
+      .map((element) => element.getAttribute("id"))
+      .filter((id): id is string => !!id)
+  );
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { parseSvg, serializeSvg } from "@/test/helpers";
+import { sanitizeSvg } from "./svg-sanitize";
+
+const sanitize = (body: string) => {
+  const doc = parseSvg(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10">${body}</svg>`
+  );
+  const rejected = sanitizeSvg(doc);
+  return { content: serializeSvg(doc), rejected };
+};
+
+describe("sanitizeSvg", () => {
+  it("escapes CDATA inside foreignObject so it cannot become markup", () => {
+    const { content } = sanitize(
+      '<foreignObject width="10" height="10"><div xmlns="http://www.w3.org/1999/xhtml"><![CDATA[ x><img src=x onerror=alert(1)> ]]></div></foreignObject>'
+    );
+    expect(content).not.toContain("CDATA");
+    expect(content).not.toContain("<img");
+    expect(content).toContain("x&gt;&lt;img src=x onerror=alert(1)&gt;");
+  });
+
+  it("removes comments", () => {
+    const { content } = sanitize(
+      '<!-- a --><foreignObject><div xmlns="http://www.w3.org/1999/xhtml"><!--x--><span>😀</span></div></foreignObject>'
+    );
+    expect(content).not.toContain("<!--");
+    expect(content).toContain("<span>😀</span>");
+  });
+
+  it("keeps CDATA styles as text", () => {
+    const { content, rejected } = sanitize(
+      "<style><![CDATA[ @font-face { font-family: 'A<B'; src: url('./a.woff2') } ]]></style>"
+    );
+    expect(rejected).toEqual([]);
+    expect(content).toContain(
+      "<style> @font-face { font-family: 'A&lt;B'; src: url('./a.woff2') } </style>"
+    );
+  });
+
+  it("keeps @font-face rules", () => {
+    const css =
+      "@font-face { font-family: 'EmojiSubset'; src: url('data:font/woff2;base64,AA==') format('woff2'); }";
+    const { content, rejected } = sanitize(`<style>${css}</style>`);
+    expect(rejected).toEqual([]);
+    expect(content).toContain(css);
+  });
+
+  it.each([
+    "body { display: none }",
+    "* { visibility: hidden }",
+    "@font-face { font-family: 'A' } html { background: red }",
+    "@media screen { body { display: none } }",
+    "b\\6fdy { display: none }",
+  ])("removes page-level selectors in %s", (css) => {
+    const { content, rejected } = sanitize(`<style>${css}</style>`);
+    expect(content).not.toContain("<style");
+    expect(content).not.toContain("display");
+    expect(rejected).toEqual([
+      { kind: "element", name: "style", reason: "rules other than @font-face" },
+    ]);
+  });
+
+  it.each([
+    ["@\\69mport 'https://example.com/a.css';", "forbidden CSS"],
+    ["@im\\port 'a.css';", "forbidden CSS"],
+    [
+      ".a { background: url(h\\74tp://example.com/a.png) }",
+      "external URL http://example.com/a.png",
+    ],
+    [
+      ".a { background: \\75rl('//example.com/a.png') }",
+      "external URL //example.com/a.png",
+    ],
+  ])("rejects escaped CSS %s", (css, reason) => {
+    const { content, rejected } = sanitize(`<style>${css}</style>`);
+    expect(content).not.toContain("<style");
+    expect(rejected).toEqual([{ kind: "element", name: "style", reason }]);
+  });
+
+  it("rejects escaped URLs in style attributes", () => {
+    const { rejected } = sanitize(
+      '<rect style="fill: url(&quot;ht\\tp://example.com/#a&quot;)"/>'
+    );
+    expect(rejected).toEqual([
+      {
+        kind: "attribute",
+        name: "style",
+        reason: "external URL http://example.com/#a",
+      },
+    ]);
+  });
+
+  it("keeps fragment and data URLs", () => {
+    const { rejected } = sanitize(
+      "<rect style=\"fill: url(#a); mask: url('data:image/png;base64,AA==')\"/>"
+    );
+    expect(rejected).toEqual([]);
+  });
+});
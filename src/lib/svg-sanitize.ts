@@ -0,0 +1,483 @@
+// 업로드한 SVG와 변환 결과 SVG에서 허용 목록에 없는 요소, 속성, 외부 참조를 제거하는 유틸리티
+// 미리보기는 SVG를 그대로 페이지에 넣으므로 <script>나 이벤트 핸들러가 남아있으면 앱에서 실행된다
+// 브라우저의 DOM과 서버 측 XML 파서 모두에서 동작하도록 표준 DOM 인터페이스만 사용한다
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+const XHTML_NS = "http://www.w3.org/1999/xhtml";
+const XLINK_NS = "http://www.w3.org/1999/xlink";
+const XML_NS = "http://www.w3.org/XML/1998/namespace";
+const XMLNS_NS = "http://www.w3.org/2000/xmlns/";
+
+const ELEMENT_NODE = 1;
+const CDATA_SECTION_NODE = 4;
+const PROCESSING_INSTRUCTION_NODE = 7;
+const COMMENT_NODE = 8;
+
+// 허용하는 SVG 요소 (스크립트, 링크, 애니메이션처럼 코드 실행이나 탐색이 가능한 요소는 제외)
+const SVG_ELEMENTS = new Set([
+  "svg",
+  "g",
+  "defs",
+  "symbol",
+  "use",
+  "image",
+  "path",
+  "rect",
+  "circle",
+  "ellipse",
+  "line",
+  "polyline",
+  "polygon",
+  "text",
+  "tspan",
+  "textPath",
+  "title",
+  "desc",
+  "linearGradient",
+  "radialGradient",
+  "stop",
+  "pattern",
+  "clipPath",
+  "mask",
+  "marker",
+  "style",
+  "foreignObject",
+  "filter",
+  "feBlend",
+  "feColorMatrix",
+  "feComponentTransfer",
+  "feComposite",
+  "feDisplacementMap",
+  "feDropShadow",
+  "feFlood",
+  "feFuncA",
+  "feFuncB",
+  "feFuncG",
+  "feFuncR",
+  "feGaussianBlur",
+  "feImage",
+  "feMerge",
+  "feMergeNode",
+  "feMorphology",
+  "feOffset",
+  "feTile",
+  "feTurbulence",
+]);
+
+// foreignObject 안에서 허용하는 XHTML 요소 (이모지 텍스트를 담는 용도)
+const XHTML_ELEMENTS = new Set(["div", "span", "p", "br"]);
+
+// 허용하는 속성 (네임스페이스가 없는 속성)
+const ATTRIBUTES = new Set([
+  // 구조와 좌표
+  "id",
+  "class",
+  "style",
+  "version",
+  "x",
+  "y",
+  "x1",
+  "y1",
+  "x2",
+  "y2",
+  "cx",
+  "cy",
+  "r",
+  "rx",
+  "ry",
+  "fx",
+  "fy",
+  "fr",
+  "dx",
+  "dy",
+  "width",
+  "height",
+  "d",
+  "points",
+  "pathLength",
+  "viewBox",
+  "preserveAspectRatio",
+  "transform",
+  "href",
+  "type",
+  "media",
+  "lang",
+  "role",
+  // 그라디언트, 패턴, 클립, 마스크, 마커
+  "offset",
+  "gradientUnits",
+  "gradientTransform",
+  "spreadMethod",
+  "patternUnits",
+  "patternContentUnits",
+  "patternTransform",
+  "clipPathUnits",
+  "maskUnits",
+  "maskContentUnits",
+  "markerUnits",
+  "markerWidth",
+  "markerHeight",
+  "refX",
+  "refY",
+  "orient",
+  // 텍스트
+  "rotate",
+  "textLength",
+  "lengthAdjust",
+  "startOffset",
+  "method",
+  "spacing",
+  "side",
+  // 표현 속성
+  "fill",
+  "fill-opacity",
+  "fill-rule",
+  "stroke",
+  "stroke-width",
+  "stroke-linecap",
+  "stroke-linejoin",
+  "stroke-miterlimit",
+  "stroke-dasharray",
+  "stroke-dashoffset",
+  "stroke-opacity",
+  "opacity",
+  "clip-path",
+  "clip-rule",
+  "mask",
+  "filter",
+  "stop-color",
+  "stop-opacity",
+  "color",
+  "display",
+  "visibility",
+  "overflow",
+  "font-family",
+  "font-size",
+  "font-size-adjust",
+  "font-weight",
+  "font-style",
+  "font-variant",
+  "font-stretch",
+  "letter-spacing",
+  "word-spacing",
+  "text-anchor",
+  "text-decoration",
+  "text-rendering",
+  "dominant-baseline",
+  "alignment-baseline",
+  "baseline-shift",
+  "writing-mode",
+  "direction",
+  "unicode-bidi",
+  "white-space",
+  "paint-order",
+  "vector-effect",
+  "shape-rendering",
+  "image-rendering",
+  "color-interpolation",
+  "color-interpolation-filters",
+  "flood-color",
+  "flood-opacity",
+  "lighting-color",
+  "mix-blend-mode",
+  "isolation",
+  "marker-start",
+  "marker-mid",
+  "marker-end",
+  // 필터
+  "filterUnits",
+  "primitiveUnits",
+  "in",
+  "in2",
+  "result",
+  "stdDeviation",
+  "values",
+  "mode",
+  "operator",
+  "k1",
+  "k2",
+  "k3",
+  "k4",
+  "scale",
+  "xChannelSelector",
+  "yChannelSelector",
+  "tableValues",
+  "slope",
+  "intercept",
+  "amplitude",
+  "exponent",
+  "edgeMode",
+  "radius",
+  "baseFrequency",
+  "numOctaves",
+  "seed",
+  "stitchTiles",
+]);
+
+// 네임스페이스가 있는 속성 중 허용하는 것
+const NAMESPACED_ATTRIBUTES: Record<string, Set<string> | "any"> = {
+  [XLINK_NS]: new Set(["href", "title"]),
+  [XML_NS]: new Set(["space", "lang"]),
+  [XMLNS_NS]: "any",
+};
+
+// 참조를 허용하는 URL: 문서 안의 id, 이미지와 폰트 data URI, 같은 위치의 상대 경로
+// http(s)처럼 스킴이 있는 주소와 //로 시작하는 주소는 외부 요청이나 스크립트 실행이 가능하므로 거부한다
+const ALLOWED_DATA_URL =
+  /^data:(image\/(png|jpeg|gif|webp|avif)|font\/[\w.+-]+)[;,]/i;
+const URL_SCHEME = /^[a-z][a-z\d+.-]*:/i;
+
+// style 속성과 <style> 안에서 허용하지 않는 구문
+const FORBIDDEN_CSS =
+  /@import|expression\s*\(|javascript:|behavior\s*:|-moz-binding/i;
+const CSS_URL = /url\(\s*(['"]?)(.*?)\1\s*\)/gi;
+
+// <style>에서 허용하는 규칙 (@font-face만)
+// 미리보기는 SVG를 페이지에 그대로 넣으므로 선택자 규칙(body { ... } 등)이 남으면 앱 전체에 적용된다
+const FONT_FACE_ONLY_CSS = /^\s*(?:@font-face\s*\{[^{}]*\}\s*)*$/i;
+
+// 제거한 내용
+export interface RejectedContent {
+  kind: "element" | "attribute";
+  name: string; // 요소 이름이나 속성 이름
+  reason: string;
+}
+
+const isAllowedUrl = (url: string): boolean => {
+  const value = url.trim();
+  if (value.startsWith("#")) {
+    return true;
+  }
+  if (value.toLowerCase().startsWith("data:")) {
+    return ALLOWED_DATA_URL.test(value);
+  }
+  // 제어 문자를 끼워 스킴 검사를 피하는 경우까지 막기 위해 공백과 제어 문자를 지우고 확인
+  const compact = Array.from(value)
+    .filter((char) => char.charCodeAt(0) > 0x20)
+    .join("");
+  return !URL_SCHEME.test(compact) && !compact.startsWith("//");
+};
+
+// CSS 이스케이프(\69, \:)와 주석을 풀어 브라우저가 해석하는 형태로 바꾸기
+// @\69mport나 url(h\74tp:...)처럼 이스케이프로 차단 목록을 피하지 못하도록 푼 뒤에 검사한다
+const CSS_COMMENT = /\/\*[\s\S]*?\*\//g;
+const CSS_ESCAPE =
+  /\\(?:([\da-f]{1,6})[ \t\n\r\f]?|(\r\n|[\n\r\f])|([\s\S]))/gi;
+
+const unescapeCss = (css: string): string =>
+  css
+    .replace(CSS_COMMENT, "")
+    .replace(
+      CSS_ESCAPE,
+      (_match, hex?: string, _newline?: string, char?: string) => {
+        if (hex) {
+          const code = parseInt(hex, 16);
+          return code === 0 ||
+            code > 0x10ffff ||
+            (code >= 0xd800 && code <= 0xdfff)
+            ? "\ufffd"
+            : String.fromCodePoint(code);
+        }
+        return char ?? "";
+      }
+    );
+
+// CSS 텍스트에서 허용하지 않는 구문이나 URL을 찾아 이유 반환 (문제가 없으면 null)
+const checkCss = (value: string): string | null => {
+  const css = unescapeCss(value);
+  if (FORBIDDEN_CSS.test(css)) {
+    return "forbidden CSS";
+  }
+  for (const match of Array.from(css.matchAll(CSS_URL))) {
+    if (!isAllowedUrl(match[2])) {
+      return `external URL ${match[2].slice(0, 60)}`;
+    }
+  }
+  return null;
+};
+
+// <style> 안의 CSS 확인 (@font-face 외의 규칙이 있으면 거부)
+const checkStyleSheet = (css: string): string | null =>
+  checkCss(css) ||
+  (FONT_FACE_ONLY_CSS.test(unescapeCss(css))
+    ? null
+    : "rules other than @font-face");
+
+// 속성 하나가 허용되는지 확인하고 거부 이유 반환 (허용되면 null)
+const checkAttribute = (attr: Attr): string | null => {
+  const name = attr.localName;
+  if (attr.namespaceURI) {
+    const allowed = NAMESPACED_ATTRIBUTES[attr.namespaceURI];
+    if (!allowed || (allowed !== "any" && !allowed.has(name))) {
+      return "not allowed";
+    }
+  } else if (!ATTRIBUTES.has(name) && !/^(data|aria)-[\w.-]+$/.test(name)) {
+    return name.toLowerCase().startsWith("on")
+      ? "event handler"
+      : "not allowed";
+  }
+
+  if (name === "href") {
+    return isAllowedUrl(attr.value)
+      ? null
+      : `external URL ${attr.value.slice(0, 60)}`;
+  }
+  return checkCss(attr.value);
+};
+
+// 요소가 허용 목록에 있는지 확인 (XHTML 요소는 foreignObject 안에서만 허용)
+const isAllowedElement = (element: Element, inForeignObject: boolean) =>
+  element.namespaceURI === SVG_NS
+    ? SVG_ELEMENTS.has(element.localName)
+    : element.namespaceURI === XHTML_NS &&
+      inForeignObject &&
+      XHTML_ELEMENTS.has(element.localName);
+
+// 처리 명령(<?xml-stylesheet?> 등) 제거 (XML 선언으로 파싱되는 경우는 보고하지 않음)
+const removeProcessingInstruction = (
+  node: ProcessingInstruction,
+  rejected: RejectedContent[]
+): void => {
+  node.parentNode?.removeChild(node);
+  if (node.target !== "xml") {
+    rejected.push({
+      kind: "element",
+      name: `?${node.target}`,
+      reason: "processing instruction",
+    });
+  }
+};
+
+// CDATA 섹션은 내용을 그대로 둔 텍스트 노드로 바꾸고 주석은 제거
+// 직렬화한 결과를 미리보기에서 HTML로 다시 파싱하면 CDATA와 주석의 경계가 XML과 다르게 해석되어
+// 안에 있던 문자열이 마크업이 될 수 있으므로, 텍스트로 바꿔 직렬화할 때 이스케이프되도록 한다
+const neutralizeCharacterData = (node: Node): void => {
+  if (node.nodeType === CDATA_SECTION_NODE) {
+    node.parentNode?.replaceChild(
+      node.ownerDocument!.createTextNode(node.nodeValue || ""),
+      node
+    );
+  } else if (node.nodeType === COMMENT_NODE) {
+    node.parentNode?.removeChild(node);
+  }
+};
+
+const sanitizeElement = (
+  element: Element,
+  inForeignObject: boolean,
+  rejected: RejectedContent[]
+): void => {
+  for (const attr of Array.from(element.attributes)) {
+    const reason = checkAttribute(attr);
+    if (reason) {
+      element.removeAttributeNode(attr);
+      rejected.push({ kind: "attribute", name: attr.name, reason });
+    }
+  }
+
+  // <style> 안의 CSS는 통째로 확인
+  if (element.localName === "style") {
+    const reason = checkStyleSheet(element.textContent || "");
+    if (reason) {
+      element.parentNode?.removeChild(element);
+      rejected.push({ kind: "element", name: element.tagName, reason });
+      return;
+    }
+  }
+
+  const childInForeignObject =
+    inForeignObject || element.localName === "foreignObject";
+  for (const child of Array.from(element.childNodes)) {
+    if (child.nodeType === PROCESSING_INSTRUCTION_NODE) {
+      removeProcessingInstruction(child as ProcessingInstruction, rejected);
+      continue;
+    }
+    if (child.nodeType !== ELEMENT_NODE) {
+      neutralizeCharacterData(child);
+      continue;
+    }
+    const childElement = child as Element;
+    if (!isAllowedElement(childElement, childInForeignObject)) {
+      element.removeChild(childElement);
+      rejected.push({
+        kind: "element",
+        name: childElement.tagName,
+        reason: "not allowed",
+      });
+      continue;
+    }
+    sanitizeElement(childElement, childInForeignObject, rejected);
+  }
+};
+
+// 문서에서 허용 목록에 없는 요소와 속성을 제거하고 제거한 내용 반환
+// 루트가 <svg>가 아니면 어떤 내용도 신뢰할 수 없으므로 에러를 던진다
+export function sanitizeSvg(doc: Document): RejectedContent[] {
+  const root = doc.documentElement;
+  if (!root || root.namespaceURI !== SVG_NS || root.localName !== "svg") {
+    throw new Error("Invalid SVG format. The root element must be <svg>.");
+  }
+  const rejected: RejectedContent[] = [];
+  for (const child of Array.from(doc.childNodes)) {
+    if (child.nodeType === PROCESSING_INSTRUCTION_NODE) {
+      removeProcessingInstruction(child as ProcessingInstruction, rejected);
+    } else {
+      neutralizeCharacterData(child);
+    }
+  }
+  sanitizeElement(root, false, rejected);
+  return rejected;
+}
+
+// 제거한 내용을 종류별로 묶어 보고용 문구로 만들기 (예: "<script> element (not allowed) ×2")
+export const formatRejectedContent = (
+  rejected: RejectedContent[]
+): string[] => {
+  const counts = new Map<string, number>();
+  for (const { kind, name, reason } of rejected) {
+    const label =
+      kind === "element"
+        ? `<${name}> element (${reason})`
+        : `${name} attribute (${reason})`;
+    counts.set(label, (counts.get(label) || 0) + 1);
+  }
+  return Array.from(counts, ([label, count]) =>
+    count > 1 ? `${label} ×${count}` : label
+  );
+};
+
+// 텍스트와 속성 값에 넣을 문자열의 XML 특수 문자 이스케이프
+export const escapeXml = (value: string | number): string =>
+  String(value).replace(
+    /[&<>"']/g,
+    (char) =>
+      ({
+        "&": "&amp;",
+        "<": "&lt;",
+        ">": "&gt;",
+        '"': "&quot;",
+        "'": "&apos;",
+      })[char]!
+  );
+
+// 이스케이프하지 않고 그대로 넣을 마크업 (직접 만든 마크업이나 이미 정리한 SVG 조각)
+export interface TrustedXml {
+  trustedXml: string;
+}
+
+export const rawXml = (markup: string): TrustedXml => ({ trustedXml: markup });
+
+// 넣는 값을 모두 이스케이프하는 마크업 템플릿 태그
+// 요청에서 온 값이 속성이나 텍스트를 벗어나 마크업이 되지 않도록 SVG 문자열은 이 태그로 만든다
+export const xml = (
+  strings: TemplateStringsArray,
+  ...values: (string | number | TrustedXml)[]
+): string =>
+  strings.reduce((result, part, index) => {
+    const value = values[index - 1];
+    return (
+      result +
+      (typeof value === "object" ? value.trustedXml : escapeXml(value)) +
+      part
+    );
+  });
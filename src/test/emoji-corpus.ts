@@ -0,0 +1,127 @@
+// 이모지 판별과 글리프 검사에 쓰는 테스트 말뭉치
+// 자소 클러스터 하나마다 이모지로 그려야 하는지와 코드포인트를 기록한다
+export interface EmojiCorpusEntry {
+  name: string;
+  text: string;
+  isEmoji: boolean;
+  codePoints: string;
+  ligature?: boolean; // 여러 코드포인트가 글리프 하나로 그려지는 시퀀스
+}
+
+export const EMOJI_CORPUS: EmojiCorpusEntry[] = [
+  // 기본 이모지
+  { name: "calendar", text: "📆", isEmoji: true, codePoints: "U+1F4C6" },
+  { name: "grinning face", text: "😀", isEmoji: true, codePoints: "U+1F600" },
+
+  // 피부색 수식자
+  {
+    name: "thumbs up: medium skin tone",
+    text: "👍🏽",
+    isEmoji: true,
+    codePoints: "U+1F44D U+1F3FD",
+    ligature: true,
+  },
+  {
+    name: "waving hand: dark skin tone",
+    text: "👋🏿",
+    isEmoji: true,
+    codePoints: "U+1F44B U+1F3FF",
+    ligature: true,
+  },
+
+  // ZWJ 시퀀스
+  {
+    name: "woman technologist: light skin tone",
+    text: "👩🏻‍💻",
+    isEmoji: true,
+    codePoints: "U+1F469 U+1F3FB U+200D U+1F4BB",
+    ligature: true,
+  },
+  {
+    name: "family: man, woman, girl, boy",
+    text: "👨‍👩‍👧‍👦",
+    isEmoji: true,
+    codePoints: "U+1F468 U+200D U+1F469 U+200D U+1F467 U+200D U+1F466",
+    ligature: true,
+  },
+  {
+    name: "rainbow flag (VS16 inside ZWJ)",
+    text: "🏳️‍🌈",
+    isEmoji: true,
+    codePoints: "U+1F3F3 U+FE0F U+200D U+1F308",
+    ligature: true,
+  },
+
+  // 국기
+  {
+    name: "flag: South Korea",
+    text: "🇰🇷",
+    isEmoji: true,
+    codePoints: "U+1F1F0 U+1F1F7",
+    ligature: true,
+  },
+  {
+    name: "flag: Scotland (tag sequence)",
+    text: "🏴󠁧󠁢󠁳󠁣󠁴󠁿",
+    isEmoji: true,
+    codePoints: "U+1F3F4 U+E0067 U+E0062 U+E0073 U+E0063 U+E0074 U+E007F",
+    ligature: true,
+  },
+
+  // 키캡
+  {
+    name: "keycap: 1",
+    text: "1️⃣",
+    isEmoji: true,
+    codePoints: "U+31 U+FE0F U+20E3",
+    ligature: true,
+  },
+  {
+    name: "keycap: #",
+    text: "#️⃣",
+    isEmoji: true,
+    codePoints: "U+23 U+FE0F U+20E3",
+    ligature: true,
+  },
+
+  // 기본이 텍스트 표현인 문자는 VS16이 있을 때만 이모지
+  { name: "copyright", text: "©", isEmoji: false, codePoints: "U+A9" },
+  {
+    name: "copyright with VS16",
+    text: "©️",
+    isEmoji: true,
+    codePoints: "U+A9 U+FE0F",
+  },
+  { name: "trade mark", text: "™", isEmoji: false, codePoints: "U+2122" },
+  { name: "smiling face", text: "☺", isEmoji: false, codePoints: "U+263A" },
+  {
+    name: "smiling face with VS16",
+    text: "☺️",
+    isEmoji: true,
+    codePoints: "U+263A U+FE0F",
+  },
+  {
+    name: "red heart with VS16",
+    text: "❤️",
+    isEmoji: true,
+    codePoints: "U+2764 U+FE0F",
+  },
+
+  // VS15(U+FE0E)는 이모지 표현 문자도 텍스트로 그리게 함
+  {
+    name: "grinning face with VS15",
+    text: "😀︎",
+    isEmoji: false,
+    codePoints: "U+1F600 U+FE0E",
+  },
+  {
+    name: "smiling face with VS15",
+    text: "☺︎",
+    isEmoji: false,
+    codePoints: "U+263A U+FE0E",
+  },
+
+  // 일반 문자
+  { name: "digit", text: "1", isEmoji: false, codePoints: "U+31" },
+  { name: "hangul", text: "한", isEmoji: false, codePoints: "U+D55C" },
+];
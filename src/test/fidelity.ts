@@ -0,0 +1,19 @@
+// 변환 결과가 원본 Figma 내보내기와 같게 보이는지 확인하는 테스트 유틸리티
+// 폰트가 필요하므로 hasFont로 확인한 테스트에서만 사용한다
+import { expect } from "vitest";
+import { describeFidelity, type FidelityReport } from "@/lib/fidelity";
+import { measureFidelity, type FidelityOptions } from "@/lib/fidelity-render";
+
+// 기준을 넘으면 보고서 요약을 담아 실패
+export async function expectFidelity(
+  original: string,
+  converted: string,
+  options?: FidelityOptions
+): Promise<FidelityReport> {
+  const { report } = await measureFidelity(original, converted, options);
+  expect(
+    report.passed,
+    `Converted SVG drifts from the original: ${describeFidelity(report)}`
+  ).toBe(true);
+  return report;
+}
@@ -0,0 +1,32 @@
+// 테스트에서 함께 쓰는 SVG 파서, 샘플 파일과 폰트 경로
+import fs from "fs";
+import path from "path";
+import { DOMParser, XMLSerializer } from "@xmldom/xmldom";
+import type { SvgParser, SvgSerializer } from "@/lib/svg-emoji";
+
+export const parseSvg: SvgParser = (content) =>
+  new DOMParser().parseFromString(
+    content,
+    "image/svg+xml"
+  ) as unknown as Document;
+
+export const serializeSvg: SvgSerializer = (doc) =>
+  new XMLSerializer().serializeToString(doc as unknown as Node);
+
+// public/sample의 Figma 내보내기 SVG
+export const readSample = (name: string): string =>
+  fs.readFileSync(path.join("public/sample", name), "utf8");
+
+// src/test/fixtures의 테스트 SVG
+export const readFixture = (name: string): string =>
+  fs.readFileSync(path.join("src/test/fixtures", name), "utf8");
+
+// 골든 파일 경로 (테스트 파일 위치와 상관없이 src/test/golden 아래)
+export const goldenPath = (name: string): string =>
+  path.resolve("src/test/golden", name);
+
+// public/fonts의 스타일별 폰트 (없으면 폰트가 필요한 테스트를 건너뜀)
+export const NOTO_FONT_PATH = "public/fonts/NotoColorEmoji-Regular.ttf";
+export const TWEMOJI_FONT_PATH = "public/fonts/Twemoji.Mozilla.ttf";
+
+export const hasFont = (fontPath: string): boolean => fs.existsSync(fontPath);
@@ -0,0 +1,12 @@
+// 테스트 파일마다 빈 디스크 캐시를 사용 (이전 실행이나 개발 서버의 캐시 결과를 검사하지 않도록)
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll } from "vitest";
+
+const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), "figma-emoji-test-"));
+process.env.EMOJI_CACHE_DIR = cacheDir;
+
+afterAll(() => {
+  fs.rmSync(cacheDir, { recursive: true, force: true });
+});
@@ -0,0 +1,15 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+// 단위 테스트와 골든 파일 테스트 (npm test)
+// 네트워크 없이 실행되며, 폰트가 필요한 테스트는 public/fonts에 폰트가 없으면 건너뛴다
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL("./src", import.meta.url)) },
+  },
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.ts"],
+    setupFiles: ["src/test/setup.ts"],
+  },
+});